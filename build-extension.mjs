@@ -18,6 +18,12 @@ entryPoints.push({
     out: 'tab'
 })
 
+// Layout Web Worker, loaded by the tab at runtime
+entryPoints.push({
+    in: 'src/ui/layoutWorker.ts',
+    out: 'layoutWorker'
+})
+
 const args = parseArgs(process.argv.slice(2))
 const buildContext = await esbuild.context({
   ...commonConfig,
@@ -1,4 +1,5 @@
 import { IComponent, getStudioProApi } from "@mendix/extensions-api";
+import { ViewerMessage, ViewerMessageResponse } from "../messages";
 
 export const component: IComponent = {
     async loaded(componentContext) {
@@ -31,6 +32,20 @@ export const component: IComponent = {
                 }
             }
         );
+
+        // Open documents on behalf of the viewer tab
+        await studioPro.ui.messagePassing.addMessageHandler<ViewerMessage>(async ({ messageId, message }) => {
+            if (message.type !== "openDocument") return;
+
+            let response: ViewerMessageResponse;
+            try {
+                await studioPro.ui.editors.editDocument(message.documentId);
+                response = { success: true };
+            } catch (err) {
+                response = { success: false, error: `${err}` };
+            }
+            await studioPro.ui.messagePassing.sendResponse(messageId, response);
+        });
     }
 };
 
@@ -0,0 +1,14 @@
+// Messages between the ontology viewer tab and the main entry point. Only the main entry point
+// opens editors, so the tab asks it to open documents.
+
+export interface OpenDocumentMessage {
+    type: "openDocument";
+    documentId: string;
+}
+
+export type ViewerMessage = OpenDocumentMessage;
+
+export interface ViewerMessageResponse {
+    success: boolean;
+    error?: string;
+}
@@ -0,0 +1,112 @@
+import { OntologyData, OntologyEntity } from "./types";
+import { createEntityIndex, getMultiplicity, formatAttributeType } from "./ontology";
+
+export type DiagramFormat = "plantuml" | "mermaid";
+
+export const DIAGRAM_FILE_EXTENSIONS: Record<DiagramFormat, string> = {
+    plantuml: "puml",
+    mermaid: "mmd"
+};
+
+function groupByModule(entities: OntologyEntity[]): Map<string, OntologyEntity[]> {
+    const groups = new Map<string, OntologyEntity[]>();
+    entities.forEach(entity => {
+        const group = groups.get(entity.moduleName) || [];
+        group.push(entity);
+        groups.set(entity.moduleName, group);
+    });
+    return groups;
+}
+
+// Mermaid identifiers cannot contain dots
+function toMermaidId(qualifiedName: string): string {
+    return qualifiedName.replace(/\./g, "_");
+}
+
+// Generate a PlantUML class diagram with one package per module
+export function toPlantUml(data: OntologyData): string {
+    const lines: string[] = ["@startuml", "set namespaceSeparator none", "hide circle", "hide methods", ""];
+    const index = createEntityIndex(data.entities);
+
+    for (const [moduleName, entities] of groupByModule(data.entities)) {
+        lines.push(`package ${moduleName} {`);
+        for (const entity of entities) {
+            lines.push(`    class "${entity.name}" as ${entity.qualifiedName} {`);
+            for (const attr of entity.attributes) {
+                lines.push(`        ${attr.name} : ${formatAttributeType(attr)}`);
+            }
+            lines.push("    }");
+        }
+        lines.push("}");
+        lines.push("");
+    }
+
+    // Only generalizations between exported entities, a missing parent would be drawn as an empty class
+    for (const entity of data.entities) {
+        const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (parent) {
+            lines.push(`${parent.qualifiedName} <|-- ${entity.qualifiedName}`);
+        }
+    }
+
+    for (const assoc of data.associations) {
+        const parent = index.get(assoc.parentEntity);
+        const child = index.get(assoc.childEntity);
+        if (!parent || !child) continue;
+
+        const multiplicity = getMultiplicity(assoc);
+        const arrow = assoc.owner === "Both" ? "--" : "-->";
+        lines.push(
+            `${parent.qualifiedName} "${multiplicity.parent}" ${arrow} "${multiplicity.child}" ${child.qualifiedName} : ${assoc.name}`
+        );
+    }
+
+    lines.push("@enduml");
+    return lines.join("\n") + "\n";
+}
+
+// Generate a Mermaid classDiagram with one namespace per module
+export function toMermaid(data: OntologyData): string {
+    const lines: string[] = ["classDiagram"];
+    const index = createEntityIndex(data.entities);
+
+    for (const [moduleName, entities] of groupByModule(data.entities)) {
+        lines.push(`    namespace ${moduleName} {`);
+        for (const entity of entities) {
+            const id = toMermaidId(entity.qualifiedName);
+            if (entity.attributes.length === 0) {
+                lines.push(`        class ${id}["${entity.name}"]`);
+                continue;
+            }
+            lines.push(`        class ${id}["${entity.name}"] {`);
+            for (const attr of entity.attributes) {
+                // Parentheses would turn the member into a method, so string lengths are left out
+                const type = attr.enumeration ? formatAttributeType(attr) : attr.type;
+                lines.push(`            +${type} ${attr.name}`);
+            }
+            lines.push("        }");
+        }
+        lines.push("    }");
+    }
+
+    for (const entity of data.entities) {
+        const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (parent) {
+            lines.push(`    ${toMermaidId(parent.qualifiedName)} <|-- ${toMermaidId(entity.qualifiedName)}`);
+        }
+    }
+
+    for (const assoc of data.associations) {
+        const parent = index.get(assoc.parentEntity);
+        const child = index.get(assoc.childEntity);
+        if (!parent || !child) continue;
+
+        const multiplicity = getMultiplicity(assoc);
+        const arrow = assoc.owner === "Both" ? "--" : "-->";
+        lines.push(
+            `    ${toMermaidId(parent.qualifiedName)} "${multiplicity.parent}" ${arrow} "${multiplicity.child}" ${toMermaidId(child.qualifiedName)} : ${assoc.name}`
+        );
+    }
+
+    return lines.join("\n") + "\n";
+}
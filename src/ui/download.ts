@@ -0,0 +1,15 @@
+// Trigger a browser download for generated content (exports, snapshots, ...)
+export function downloadFile(fileName: string, content: Blob | string, mimeType: string = "text/plain"): void {
+    const blob = typeof content === "string" ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
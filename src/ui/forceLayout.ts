@@ -0,0 +1,306 @@
+import { NodePosition } from "./types";
+
+// Serializable layout input - this module also runs inside the layout Web Worker,
+// so it must not depend on React, the DOM or the Extensions API.
+export interface LayoutNode {
+    id: string;
+    group: string;
+}
+
+export interface LayoutEdge {
+    source: string;
+    target: string;
+    weight: number;
+}
+
+export type LayoutAlgorithm = "force" | "hierarchical" | "circular" | "modules";
+
+export interface LayoutInput {
+    algorithm: LayoutAlgorithm;
+    nodes: LayoutNode[];
+    edges: LayoutEdge[];
+    pinned: Record<string, NodePosition>;
+    // Overrides the canvas size derived from the node count
+    bounds?: LayoutBounds;
+}
+
+export interface LayoutProgress {
+    positions: Record<string, NodePosition>;
+    iteration: number;
+    done: boolean;
+}
+
+export interface LayoutBounds {
+    width: number;
+    height: number;
+}
+
+const MAX_ITERATIONS = 300;
+const COOLING = 0.96;
+const CONVERGENCE_THRESHOLD = 0.5;
+const THETA = 0.8;
+const GRAVITY = 4;
+const MAX_TREE_DEPTH = 24;
+const MARGIN_X = 100;
+const MARGIN_Y = 50;
+
+// Canvas area grows with the number of entities (roughly 260x180 per node), 3:2 aspect ratio
+export function getLayoutBounds(nodeCount: number): LayoutBounds {
+    const side = Math.sqrt(Math.max(nodeCount, 1) * 260 * 180 / 1.5);
+    return {
+        width: Math.max(1200, Math.round(side * 1.5)),
+        height: Math.max(800, Math.round(side))
+    };
+}
+
+// Barnes-Hut quadtree cell
+interface QuadCell {
+    x: number;
+    y: number;
+    size: number;
+    mass: number;
+    cx: number;
+    cy: number;
+    body: number;
+    children: Array<QuadCell | null> | null;
+}
+
+function createCell(x: number, y: number, size: number): QuadCell {
+    return { x, y, size, mass: 0, cx: 0, cy: 0, body: -1, children: null };
+}
+
+function insertBody(cell: QuadCell, index: number, xs: Float64Array, ys: Float64Array, depth: number): void {
+    const px = xs[index];
+    const py = ys[index];
+
+    // Update aggregate mass and center of mass
+    cell.cx = (cell.cx * cell.mass + px) / (cell.mass + 1);
+    cell.cy = (cell.cy * cell.mass + py) / (cell.mass + 1);
+    cell.mass += 1;
+
+    if (cell.mass === 1) {
+        cell.body = index;
+        return;
+    }
+    // Coincident bodies would subdivide forever - keep them aggregated at the depth limit
+    if (depth >= MAX_TREE_DEPTH) {
+        return;
+    }
+
+    if (!cell.children) {
+        cell.children = [null, null, null, null];
+        const existing = cell.body;
+        cell.body = -1;
+        if (existing >= 0) {
+            insertIntoChild(cell, existing, xs, ys, depth);
+        }
+    }
+    insertIntoChild(cell, index, xs, ys, depth);
+}
+
+function insertIntoChild(cell: QuadCell, index: number, xs: Float64Array, ys: Float64Array, depth: number): void {
+    const half = cell.size / 2;
+    const east = xs[index] >= cell.x + half ? 1 : 0;
+    const south = ys[index] >= cell.y + half ? 1 : 0;
+    const quadrant = south * 2 + east;
+
+    let child = cell.children![quadrant];
+    if (!child) {
+        child = createCell(cell.x + east * half, cell.y + south * half, half);
+        cell.children![quadrant] = child;
+    }
+    insertBody(child, index, xs, ys, depth + 1);
+}
+
+function buildQuadTree(xs: Float64Array, ys: Float64Array): QuadCell {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < xs.length; i++) {
+        minX = Math.min(minX, xs[i]);
+        minY = Math.min(minY, ys[i]);
+        maxX = Math.max(maxX, xs[i]);
+        maxY = Math.max(maxY, ys[i]);
+    }
+
+    const root = createCell(minX, minY, Math.max(maxX - minX, maxY - minY, 1) + 1);
+    for (let i = 0; i < xs.length; i++) {
+        insertBody(root, i, xs, ys, 0);
+    }
+    return root;
+}
+
+// Accumulate the repulsive force on body `index`, approximating distant cells by their center of mass
+function applyRepulsion(
+    cell: QuadCell, index: number, xs: Float64Array, ys: Float64Array,
+    k2: number, force: { x: number; y: number }
+): void {
+    if (cell.mass === 0 || cell.body === index) return;
+
+    const dx = xs[index] - cell.cx;
+    const dy = ys[index] - cell.cy;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (cell.children === null || cell.size / (distance || 1) < THETA) {
+        if (distance < 0.01) {
+            // Nudge overlapping nodes apart in a deterministic direction
+            force.x += ((index % 7) - 3) * 0.1 * cell.mass;
+            force.y += ((index % 5) - 2) * 0.1 * cell.mass;
+            return;
+        }
+        const magnitude = (k2 * cell.mass) / distance;
+        force.x += (dx / distance) * magnitude;
+        force.y += (dy / distance) * magnitude;
+        return;
+    }
+
+    for (const child of cell.children) {
+        if (child) applyRepulsion(child, index, xs, ys, k2, force);
+    }
+}
+
+// Initial positions: pinned nodes keep their position, other nodes are arranged
+// in a grid of module groups so that modules start out clustered
+function seedPositions(input: LayoutInput, bounds: LayoutBounds, xs: Float64Array, ys: Float64Array): void {
+    const groups = new Map<string, number[]>();
+    input.nodes.forEach((node, index) => {
+        const pinnedPosition = input.pinned[node.id];
+        if (pinnedPosition) {
+            xs[index] = pinnedPosition.x;
+            ys[index] = pinnedPosition.y;
+            return;
+        }
+        const group = groups.get(node.group) || [];
+        group.push(index);
+        groups.set(node.group, group);
+    });
+
+    const groupNames = Array.from(groups.keys());
+    const groupsPerRow = Math.ceil(Math.sqrt(groupNames.length));
+    const groupWidth = bounds.width / Math.max(groupsPerRow, 1);
+    const groupHeight = bounds.height / Math.max(Math.ceil(groupNames.length / groupsPerRow), 1);
+
+    groupNames.forEach((groupName, groupIndex) => {
+        const groupCol = groupIndex % groupsPerRow;
+        const groupRow = Math.floor(groupIndex / groupsPerRow);
+        const members = groups.get(groupName)!;
+
+        const perRow = Math.ceil(Math.sqrt(members.length));
+        const cellWidth = groupWidth / (perRow + 1);
+        const cellHeight = groupHeight / (Math.ceil(members.length / perRow) + 1);
+
+        members.forEach((nodeIndex, memberIndex) => {
+            xs[nodeIndex] = groupCol * groupWidth + ((memberIndex % perRow) + 1) * cellWidth;
+            ys[nodeIndex] = groupRow * groupHeight + (Math.floor(memberIndex / perRow) + 1) * cellHeight;
+        });
+    });
+}
+
+export function toPositionRecord(input: LayoutInput, xs: Float64Array, ys: Float64Array): Record<string, NodePosition> {
+    const positions: Record<string, NodePosition> = {};
+    input.nodes.forEach((node, index) => {
+        positions[node.id] = { x: xs[index], y: ys[index] };
+    });
+    return positions;
+}
+
+// Force-directed layout (Fruchterman-Reingold with Barnes-Hut repulsion).
+// Runs until the largest displacement drops below the convergence threshold,
+// reporting intermediate positions every `progressInterval` iterations.
+export function runForceLayout(
+    input: LayoutInput,
+    onProgress?: (progress: LayoutProgress) => void,
+    progressInterval: number = 10
+): Record<string, NodePosition> {
+    const nodeCount = input.nodes.length;
+    const bounds = input.bounds || getLayoutBounds(nodeCount);
+    const xs = new Float64Array(nodeCount);
+    const ys = new Float64Array(nodeCount);
+    const isPinned = input.nodes.map(node => node.id in input.pinned);
+
+    seedPositions(input, bounds, xs, ys);
+
+    if (isPinned.every(pinned => pinned)) {
+        return toPositionRecord(input, xs, ys);
+    }
+
+    // Resolve edges to node indexes once instead of on every iteration
+    const indexById = new Map(input.nodes.map((node, index) => [node.id, index]));
+    const edges: Array<[number, number, number]> = [];
+    input.edges.forEach(edge => {
+        const source = indexById.get(edge.source);
+        const target = indexById.get(edge.target);
+        if (source !== undefined && target !== undefined && source !== target) {
+            edges.push([source, target, edge.weight]);
+        }
+    });
+
+    const k = Math.sqrt((bounds.width * bounds.height) / Math.max(nodeCount, 1));
+    const k2 = k * k;
+    const centerX = bounds.width / 2;
+    const centerY = bounds.height / 2;
+    const aspectRatio = bounds.width / bounds.height;
+    const dispX = new Float64Array(nodeCount);
+    const dispY = new Float64Array(nodeCount);
+    const force = { x: 0, y: 0 };
+    let temperature = bounds.width / 10;
+
+    onProgress?.({ positions: toPositionRecord(input, xs, ys), iteration: 0, done: false });
+
+    for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration++) {
+        dispX.fill(0);
+        dispY.fill(0);
+
+        // Repulsion between all nodes, O(n log n)
+        const tree = buildQuadTree(xs, ys);
+        for (let i = 0; i < nodeCount; i++) {
+            if (isPinned[i]) continue;
+            force.x = 0;
+            force.y = 0;
+            applyRepulsion(tree, i, xs, ys, k2, force);
+            dispX[i] += force.x;
+            dispY[i] += force.y;
+        }
+
+        // Attraction along edges
+        for (const [source, target, weight] of edges) {
+            const dx = xs[target] - xs[source];
+            const dy = ys[target] - ys[source];
+            const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+            const magnitude = (distance * distance / k) * weight;
+            const fx = (dx / distance) * magnitude;
+            const fy = (dy / distance) * magnitude;
+            dispX[source] += fx;
+            dispY[source] += fy;
+            dispX[target] -= fx;
+            dispY[target] -= fy;
+        }
+
+        // Gravity towards the center balances the repulsion, which would otherwise push
+        // everything to the border; it is stronger vertically to match the canvas aspect ratio
+        let maxMove = 0;
+        for (let i = 0; i < nodeCount; i++) {
+            if (isPinned[i]) continue;
+
+            dispX[i] += (centerX - xs[i]) * GRAVITY;
+            dispY[i] += (centerY - ys[i]) * GRAVITY * aspectRatio;
+
+            const length = Math.sqrt(dispX[i] * dispX[i] + dispY[i] * dispY[i]);
+            if (length === 0) continue;
+
+            const move = Math.min(length, temperature);
+            xs[i] = Math.max(MARGIN_X, Math.min(bounds.width - MARGIN_X, xs[i] + (dispX[i] / length) * move));
+            ys[i] = Math.max(MARGIN_Y, Math.min(bounds.height - MARGIN_Y, ys[i] + (dispY[i] / length) * move));
+            maxMove = Math.max(maxMove, move);
+        }
+
+        temperature *= COOLING;
+
+        if (maxMove < CONVERGENCE_THRESHOLD) {
+            break;
+        }
+        if (onProgress && iteration % progressInterval === 0) {
+            onProgress({ positions: toPositionRecord(input, xs, ys), iteration, done: false });
+        }
+    }
+
+    return toPositionRecord(input, xs, ys);
+}
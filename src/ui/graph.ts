@@ -0,0 +1,206 @@
+import { OntologyData, OntologyEntity, OntologyAssociation } from "./types";
+
+// Traversable edge from one entity to another, both keyed by entity ID
+export interface GraphEdge {
+    target: string;
+    kind: "association" | "generalization";
+    association?: OntologyAssociation;
+    // True from association parent (owner) to child and from specialization to generalization
+    forward: boolean;
+}
+
+export interface NeighborhoodNode {
+    distance: number;
+    // Entity one hop closer to the center, null for the center itself
+    via: string | null;
+}
+
+// One hop of an association path, `forward` when walked from parent (owner) to child
+export interface PathStep {
+    from: string;
+    to: string;
+    association: OntologyAssociation;
+    forward: boolean;
+}
+
+// Undirected adjacency over associations and generalizations, resolving ends through the entity index
+export function buildEntityGraph(data: OntologyData, index: Map<string, OntologyEntity>): Map<string, GraphEdge[]> {
+    const graph = new Map<string, GraphEdge[]>(data.entities.map(entity => [entity.id, []]));
+    const connect = (from: string, edge: GraphEdge) => graph.get(from)?.push(edge);
+
+    data.associations.forEach(association => {
+        const parent = index.get(association.parentEntity);
+        const child = index.get(association.childEntity);
+        if (!parent || !child) return;
+        connect(parent.id, { target: child.id, kind: "association", association, forward: true });
+        if (parent.id !== child.id) {
+            connect(child.id, { target: parent.id, kind: "association", association, forward: false });
+        }
+    });
+
+    data.entities.forEach(entity => {
+        const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (!parent) return;
+        connect(entity.id, { target: parent.id, kind: "generalization", forward: true });
+        connect(parent.id, { target: entity.id, kind: "generalization", forward: false });
+    });
+
+    return graph;
+}
+
+// Entities within `hops` steps of the center (breadth-first), with their distance and predecessor
+export function getNeighborhood(graph: Map<string, GraphEdge[]>, centerId: string, hops: number): Map<string, NeighborhoodNode> {
+    const neighborhood = new Map<string, NeighborhoodNode>([[centerId, { distance: 0, via: null }]]);
+    let frontier = [centerId];
+
+    for (let distance = 1; distance <= hops && frontier.length > 0; distance++) {
+        const next: string[] = [];
+        frontier.forEach(id => {
+            graph.get(id)?.forEach(edge => {
+                if (neighborhood.has(edge.target)) return;
+                neighborhood.set(edge.target, { distance, via: id });
+                next.push(edge.target);
+            });
+        });
+        frontier = next;
+    }
+
+    return neighborhood;
+}
+
+// Shortest association chain between two entities (breadth-first), null when they are not connected.
+// When respecting navigability, an association is only walked from its owner, or both ways when
+// the owner is "Both".
+export function findShortestPath(
+    graph: Map<string, GraphEdge[]>,
+    sourceId: string,
+    targetId: string,
+    respectNavigability: boolean
+): PathStep[] | null {
+    if (!graph.has(sourceId) || !graph.has(targetId)) return null;
+
+    const reachedBy = new Map<string, PathStep | null>([[sourceId, null]]);
+    let frontier = [sourceId];
+
+    while (frontier.length > 0 && !reachedBy.has(targetId)) {
+        const next: string[] = [];
+        frontier.forEach(id => {
+            graph.get(id)!.forEach(edge => {
+                if (edge.kind !== "association" || reachedBy.has(edge.target)) return;
+                const association = edge.association!;
+                if (respectNavigability && !edge.forward && association.owner !== "Both") return;
+
+                reachedBy.set(edge.target, { from: id, to: edge.target, association, forward: edge.forward });
+                next.push(edge.target);
+            });
+        });
+        frontier = next;
+    }
+
+    if (!reachedBy.has(targetId)) return null;
+
+    const path: PathStep[] = [];
+    for (let step = reachedBy.get(targetId); step; step = reachedBy.get(step.from)) {
+        path.unshift(step);
+    }
+    return path;
+}
+
+// XPath-style association path, e.g. Sales.Order_Customer/Sales.Customer.
+// Associations are qualified with the module of their parent entity.
+export function toXPathPath(path: PathStep[], index: Map<string, OntologyEntity>): string {
+    return path.map(step => {
+        const parent = index.get(step.association.parentEntity);
+        const target = index.get(step.to);
+        const associationName = parent ? `${parent.moduleName}.${step.association.name}` : step.association.name;
+        return `${associationName}/${target ? target.qualifiedName : step.to}`;
+    }).join("/");
+}
+
+// Dependency of one module on another: the parent module of a cross-module association depends on
+// the child module, the module of a specialization on the module of its generalization
+export interface ModuleDependency {
+    from: string;
+    to: string;
+    associations: OntologyAssociation[];
+    generalizations: OntologyEntity[];
+}
+
+export function getModuleDependencies(data: OntologyData, index: Map<string, OntologyEntity>): ModuleDependency[] {
+    const dependencies = new Map<string, ModuleDependency>();
+    const getDependency = (from: string, to: string): ModuleDependency => {
+        const key = `${from}\u0000${to}`;
+        let dependency = dependencies.get(key);
+        if (!dependency) {
+            dependency = { from, to, associations: [], generalizations: [] };
+            dependencies.set(key, dependency);
+        }
+        return dependency;
+    };
+
+    data.associations.forEach(association => {
+        const parent = index.get(association.parentEntity);
+        const child = index.get(association.childEntity);
+        if (parent && child && parent.moduleName !== child.moduleName) {
+            getDependency(parent.moduleName, child.moduleName).associations.push(association);
+        }
+    });
+
+    data.entities.forEach(entity => {
+        const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (parent && parent.moduleName !== entity.moduleName) {
+            getDependency(entity.moduleName, parent.moduleName).generalizations.push(entity);
+        }
+    });
+
+    return Array.from(dependencies.values());
+}
+
+// Groups of modules that depend on each other in a cycle (strongly connected components, Tarjan)
+export function findModuleCycles(dependencies: ModuleDependency[]): string[][] {
+    const outgoing = new Map<string, string[]>();
+    dependencies.forEach(dependency => {
+        outgoing.set(dependency.from, [...(outgoing.get(dependency.from) || []), dependency.to]);
+        if (!outgoing.has(dependency.to)) outgoing.set(dependency.to, []);
+    });
+
+    const indexOf = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const connect = (module: string) => {
+        indexOf.set(module, indexOf.size);
+        lowLink.set(module, indexOf.get(module)!);
+        stack.push(module);
+        onStack.add(module);
+
+        for (const target of outgoing.get(module)!) {
+            if (!indexOf.has(target)) {
+                connect(target);
+                lowLink.set(module, Math.min(lowLink.get(module)!, lowLink.get(target)!));
+            } else if (onStack.has(target)) {
+                lowLink.set(module, Math.min(lowLink.get(module)!, indexOf.get(target)!));
+            }
+        }
+
+        if (lowLink.get(module) === indexOf.get(module)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== module);
+            if (component.length > 1) {
+                cycles.push(component.sort());
+            }
+        }
+    };
+
+    outgoing.forEach((_, module) => {
+        if (!indexOf.has(module)) connect(module);
+    });
+    return cycles;
+}
@@ -0,0 +1,98 @@
+// Image export for the ontology canvas
+
+export type ImageExportArea = "viewport" | "fit";
+
+export interface ImageExportOptions {
+    area: ImageExportArea;
+    background: string;
+    padding?: number;
+}
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Selector of the pan/zoom group inside the canvas
+export const VIEWPORT_SELECTOR = "g[data-viewport]";
+
+// Serialize the live canvas into a standalone SVG document.
+// For "fit" the pan/zoom transform is dropped and the viewBox is sized to the
+// bounding box of everything drawn inside the viewport group.
+export function serializeCanvas(
+    svg: SVGSVGElement,
+    options: ImageExportOptions
+): { markup: string; width: number; height: number } {
+    const padding = options.padding ?? 40;
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    const viewportGroup = svg.querySelector<SVGGElement>(VIEWPORT_SELECTOR);
+    const clonedGroup = clone.querySelector<SVGGElement>(VIEWPORT_SELECTOR);
+
+    let x = 0;
+    let y = 0;
+    let width = svg.clientWidth;
+    let height = svg.clientHeight;
+
+    if (options.area === "fit" && viewportGroup && clonedGroup) {
+        const bbox = viewportGroup.getBBox();
+        clonedGroup.removeAttribute("transform");
+        x = bbox.x - padding;
+        y = bbox.y - padding;
+        width = Math.ceil(bbox.width + padding * 2);
+        height = Math.ceil(bbox.height + padding * 2);
+    }
+
+    clone.setAttribute("xmlns", SVG_NS);
+    clone.setAttribute("width", String(width));
+    clone.setAttribute("height", String(height));
+    clone.setAttribute("viewBox", `${x} ${y} ${width} ${height}`);
+    clone.setAttribute("font-family", "'Segoe UI', -apple-system, BlinkMacSystemFont, Roboto, 'Helvetica Neue', sans-serif");
+    clone.removeAttribute("style");
+
+    // Bake in the canvas background, which is otherwise a CSS style on the element
+    const background = document.createElementNS(SVG_NS, "rect");
+    background.setAttribute("x", String(x));
+    background.setAttribute("y", String(y));
+    background.setAttribute("width", String(width));
+    background.setAttribute("height", String(height));
+    background.setAttribute("fill", options.background);
+    clone.insertBefore(background, clone.firstChild);
+
+    const markup = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+    return { markup, width, height };
+}
+
+// Rasterize serialized SVG markup into a PNG blob at the given scale
+export function rasterizeSvg(markup: string, width: number, height: number, scale: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }));
+
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+
+            const canvas = document.createElement("canvas");
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+
+            const context = canvas.getContext("2d");
+            if (!context) {
+                reject(new Error("Canvas 2D context is not available"));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+
+            canvas.toBlob(blob => {
+                if (blob) {
+                    resolve(blob);
+                } else {
+                    reject(new Error("Failed to encode PNG"));
+                }
+            }, "image/png");
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Failed to render SVG for rasterization"));
+        };
+
+        image.src = url;
+    });
+}
@@ -1,52 +1,23 @@
-import React, { StrictMode, useState, useEffect, useCallback, useRef } from "react";
+import React, { StrictMode, useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { flushSync } from "react-dom";
 import { createRoot } from "react-dom/client";
 import { IComponent, getStudioProApi, DomainModels } from "@mendix/extensions-api";
-
-// Types for ontology data
-interface OntologyEntity {
-    id: string;
-    name: string;
-    moduleName: string;
-    qualifiedName: string;
-    attributes: Array<{
-        name: string;
-        type: string;
-    }>;
-    generalization: string | null;
-}
-
-interface OntologyAssociation {
-    id: string;
-    name: string;
-    parentEntity: string;
-    childEntity: string;
-    type: string;
-    owner: string;
-    isCrossModule: boolean;
-}
-
-interface ModuleInfo {
-    name: string;
-    isMarketplace: boolean;
-    isSystem: boolean;
-}
-
-interface OntologyData {
-    entities: OntologyEntity[];
-    associations: OntologyAssociation[];
-    modules: ModuleInfo[];
-}
-
-// Node position type
-interface NodePosition {
-    x: number;
-    y: number;
-}
-
-// Graph node with position
-interface GraphNode extends OntologyEntity {
-    position: NodePosition;
-}
+import { OntologyEntity, OntologyAssociation, OntologyAttribute, OntologyEnumeration, ModuleInfo, OntologyData, CollectedDomainModels, NodePosition, EntityValidationRule } from "./types";
+import { resolveEntity, createEntityIndex, formatAttributeType, getEnumerationUsages, getMultiplicity, getDeleteBehaviorKind } from "./ontology";
+import { calculateLayoutInWorker, calculateFocusLayout, calculateModuleLayout, placeSatelliteNodes, alignNodes, AlignCommand, toPinnedPositions, toSavedPositions, LAYOUT_ALGORITHMS } from "./layout";
+import { buildEntityGraph, getNeighborhood, findShortestPath, toXPathPath, GraphEdge, PathStep, getModuleDependencies, findModuleCycles, ModuleDependency } from "./graph";
+import { LayoutAlgorithm } from "./forceLayout";
+import { toTurtle, toJsonLd } from "./owlExport";
+import { toPlantUml, toMermaid, DiagramFormat, DIAGRAM_FILE_EXTENSIONS } from "./diagramExport";
+import { serializeCanvas, rasterizeSvg, ImageExportArea } from "./imageExport";
+import { downloadFile } from "./download";
+import { mapConcurrently } from "./concurrency";
+import { loadLayout, saveLayout, loadViews, saveViews, serializeViews, parseViews, SavedView } from "./layoutStorage";
+import { ChangeKind, ModelDiff, ModelSnapshot, diffModels, formatChangelog, serializeSnapshot, parseSnapshot, getAssociationQualifiedName, summarizeDiff, hashModel } from "./modelDiff";
+import { ViewerMessage, ViewerMessageResponse } from "../messages";
+import { parseQuery, createQueryMatcher, QUERY_HELP } from "./query";
+import { loadModelCache, saveModelCache, clearModelCache } from "./modelCache";
+import { LINT_RULES, LintConfig, LintFinding, runLint, getDefaultLintConfig, loadLintConfig, saveLintConfig } from "./linter";
 
 // Helper function to get attribute type name
 function getAttributeTypeName(type: DomainModels.AttributeType): string {
@@ -76,86 +47,363 @@ function getAttributeTypeName(type: DomainModels.AttributeType): string {
     }
 }
 
-// Function to collect ontology data directly from the API
-async function collectOntologyData(studioPro: ReturnType<typeof getStudioProApi>): Promise<OntologyData> {
+// Helper function to collect the full attribute type, value and enumeration details
+function getAttribute(attr: DomainModels.Attribute): OntologyAttribute {
+    const type = attr.type;
+    const value = attr.value;
+    const storedDefault = value.$Type === "DomainModels$StoredValue" ? (value as DomainModels.StoredValue).defaultValue : "";
+    const calculated = value.$Type === "DomainModels$CalculatedValue";
+    
+    return {
+        name: attr.name,
+        type: getAttributeTypeName(type),
+        enumeration: type.$Type === "DomainModels$EnumerationAttributeType"
+            ? (type as DomainModels.EnumerationAttributeType).enumeration
+            : null,
+        length: type.$Type === "DomainModels$StringAttributeType"
+            ? (type as DomainModels.StringAttributeType).length
+            : null,
+        defaultValue: storedDefault !== "" ? storedDefault : null,
+        calculated,
+        calculationMicroflow: calculated ? (value as DomainModels.CalculatedValue).microflow : null
+    };
+}
+
+// Load the enumerations referenced by enumeration attributes
+async function collectEnumerations(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    entities: OntologyEntity[]
+): Promise<OntologyEnumeration[]> {
+    const used = new Set<string>();
+    entities.forEach(entity => entity.attributes.forEach(attr => {
+        if (attr.enumeration) used.add(attr.enumeration);
+    }));
+    if (used.size === 0) return [];
+    
+    // Units only know their own name, the module comes from the unit info
+    const infos = await studioPro.app.model.enumerations.getUnitsInfo();
+    const usedInfos = new Map(
+        infos.filter(info => used.has(`${info.moduleName}.${info.name}`)).map(info => [info.$ID, info])
+    );
+    const units = await studioPro.app.model.enumerations.loadAll(info => usedInfos.has(info.$ID), usedInfos.size);
+    
+    return units.map(unit => {
+        const moduleName = usedInfos.get(unit.$ID)?.moduleName || "";
+        return {
+            id: unit.$ID,
+            name: unit.name,
+            moduleName,
+            qualifiedName: `${moduleName}.${unit.name}`,
+            values: unit.values.map(value => ({
+                name: value.name,
+                caption: value.caption.translations[0]?.text || value.name
+            }))
+        };
+    });
+}
+
+// Strip the module and entity from a qualified member name (Module.Entity.Member)
+function getMemberName(qualifiedName: string): string {
+    return qualifiedName.substring(qualifiedName.lastIndexOf(".") + 1);
+}
+
+// Helper function to describe a validation rule
+function getValidationRule(rule: DomainModels.ValidationRule): EntityValidationRule {
+    const info = rule.ruleInfo;
+    let description: string;
+    switch (info.$Type) {
+        case "DomainModels$RequiredRuleInfo":
+            description = "Required";
+            break;
+        case "DomainModels$UniqueRuleInfo":
+            description = "Unique";
+            break;
+        case "DomainModels$MaxLengthRuleInfo":
+            description = `Max length ${info.maxLength}`;
+            break;
+        case "DomainModels$RegExRuleInfo":
+            description = `Matches ${info.regularExpression || "(no expression)"}`;
+            break;
+        case "DomainModels$EqualsToRuleInfo":
+            description = `Equals ${info.useValue ? info.equalsToValue : getMemberName(info.equalsToAttribute || "")}`;
+            break;
+        case "DomainModels$RangeRuleInfo": {
+            const min = info.useMinValue ? info.minValue : getMemberName(info.minAttribute || "");
+            const max = info.useMaxValue ? info.maxValue : getMemberName(info.maxAttribute || "");
+            description = info.typeOfRange === "Between" ? `Between ${min} and ${max}`
+                : info.typeOfRange === "GreaterThanOrEqualTo" ? `≥ ${min}` : `≤ ${max}`;
+            break;
+        }
+        default:
+            description = "Unknown";
+    }
+    return { attribute: getMemberName(rule.attribute), rule: description };
+}
+
+// Non-persistability and system members are defined on the root of a generalization chain,
+// so specializations take them over from their (transitive) parent
+function inheritGeneralizationSettings(entities: OntologyEntity[]): void {
+    const index = createEntityIndex(entities);
+    const resolved = new Set<string>();
+    
+    const resolve = (entity: OntologyEntity, visiting: Set<string>) => {
+        if (resolved.has(entity.id) || !entity.generalization) return;
+        const parent = index.get(entity.generalization);
+        if (parent && !visiting.has(parent.id)) {
+            visiting.add(entity.id);
+            resolve(parent, visiting);
+            entity.persistable = parent.persistable;
+            entity.systemMembers = parent.systemMembers;
+        }
+        resolved.add(entity.id);
+    };
+    
+    entities.forEach(entity => resolve(entity, new Set()));
+}
+
+// Entities and associations of one module's domain model
+interface ModuleExtract {
+    domainModelId: string | null;
+    entities: OntologyEntity[];
+    associations: OntologyAssociation[];
+}
+
+// Marketplace and system modules are not selected by default and only loaded once selected
+function isCustomModule(module: ModuleInfo): boolean {
+    return !module.isMarketplace && !module.isSystem;
+}
+
+// Number of domain models requested from Studio Pro at the same time
+const MODULE_LOAD_CONCURRENCY = 4;
+
+async function collectModule(studioPro: ReturnType<typeof getStudioProApi>, moduleName: string): Promise<ModuleExtract> {
     const entities: OntologyEntity[] = [];
     const associations: OntologyAssociation[] = [];
-    const moduleInfos: ModuleInfo[] = [];
-    
-    // Get all modules
-    const modules = await studioPro.app.model.projects.getModules();
+    const domainModel = await studioPro.app.model.domainModels.getDomainModel(moduleName);
+    if (!domainModel) {
+        return { domainModelId: null, entities, associations };
+    }
     
-    // First pass: collect all entities and build the ID mapping
-    for (const module of modules) {
-        moduleInfos.push({
-            name: module.name,
-            isMarketplace: module.fromAppStore,
-            isSystem: module.name === "System" || module.name === "MxModelReflection"
-        });
+    // Collect entities
+    for (const entity of domainModel.entities) {
+        const qualifiedName = `${moduleName}.${entity.name}`;
         
-        // Get domain model for each module
-        const domainModel = await studioPro.app.model.domainModels.getDomainModel(module.name);
+        // Get generalization info
+        let generalization: string | null = null;
+        let persistable = true;
+        const systemMembers: string[] = [];
+        if (entity.generalization.$Type === "DomainModels$Generalization") {
+            const gen = entity.generalization as DomainModels.Generalization;
+            generalization = gen.generalization;
+        } else {
+            const noGen = entity.generalization as DomainModels.NoGeneralization;
+            persistable = noGen.persistable;
+            if (noGen.hasCreatedDate) systemMembers.push("createdDate");
+            if (noGen.hasChangedDate) systemMembers.push("changedDate");
+            if (noGen.hasOwner) systemMembers.push("owner");
+            if (noGen.hasChangedBy) systemMembers.push("changedBy");
+        }
         
-        if (domainModel) {
-            // Collect entities
-            for (const entity of domainModel.entities) {
-                const qualifiedName = `${module.name}.${entity.name}`;
-                
-                // Get generalization info
-                let generalization: string | null = null;
-                if (entity.generalization.$Type === "DomainModels$Generalization") {
-                    const gen = entity.generalization as DomainModels.Generalization;
-                    generalization = gen.generalization;
-                }
-                
-                entities.push({
-                    id: entity.$ID,
-                    name: entity.name,
-                    moduleName: module.name,
-                    qualifiedName,
-                    attributes: entity.attributes.map((attr: DomainModels.Attribute) => ({
-                        name: attr.name,
-                        type: getAttributeTypeName(attr.type)
-                    })),
-                    generalization
-                });
-            }
-            
-            // Collect associations (within same module)
-            for (const assoc of domainModel.associations) {
-                associations.push({
-                    id: assoc.$ID,
-                    name: assoc.name,
-                    parentEntity: assoc.parent,
-                    childEntity: assoc.child,
-                    type: assoc.type,
-                    owner: assoc.owner,
-                    isCrossModule: false
-                });
-            }
-            
-            // Collect cross-module associations
-            for (const crossAssoc of domainModel.crossAssociations) {
-                associations.push({
-                    id: crossAssoc.$ID,
-                    name: crossAssoc.name,
-                    parentEntity: crossAssoc.parent,
-                    childEntity: crossAssoc.child,
-                    type: crossAssoc.type,
-                    owner: crossAssoc.owner,
-                    isCrossModule: true
-                });
-            }
+        entities.push({
+            id: entity.$ID,
+            name: entity.name,
+            moduleName: moduleName,
+            qualifiedName,
+            attributes: entity.attributes.map(getAttribute),
+            generalization,
+            persistable,
+            systemMembers,
+            accessRules: entity.accessRules.map(rule => ({
+                moduleRoles: rule.moduleRoles,
+                allowCreate: rule.allowCreate,
+                allowDelete: rule.allowDelete,
+                defaultMemberAccess: rule.defaultMemberAccessRights,
+                xPathConstraint: rule.xPathConstraint || null
+            })),
+            validationRules: entity.validationRules.map(getValidationRule),
+            eventHandlers: entity.eventHandlers.map(handler => ({
+                moment: handler.moment,
+                event: handler.event,
+                microflow: handler.microflow
+            })),
+            indexes: entity.indexes.map(index => ({
+                attributes: index.attributes.map(indexed => {
+                    const name = indexed.type === "Normal" ? getMemberName(indexed.attribute || "") : indexed.type === "CreatedDate" ? "createdDate" : "changedDate";
+                    return indexed.ascending ? name : `${name} desc`;
+                })
+            })),
+            documentation: entity.documentation
+        });
+    }
+    
+    // Collect associations (within same module)
+    for (const assoc of domainModel.associations) {
+        associations.push({
+            id: assoc.$ID,
+            name: assoc.name,
+            parentEntity: assoc.parent,
+            childEntity: assoc.child,
+            type: assoc.type,
+            owner: assoc.owner,
+            parentDeleteBehavior: assoc.deleteBehavior.parentDeleteBehavior,
+            childDeleteBehavior: assoc.deleteBehavior.childDeleteBehavior,
+            isCrossModule: false
+        });
+    }
+    
+    // Collect cross-module associations
+    for (const crossAssoc of domainModel.crossAssociations) {
+        associations.push({
+            id: crossAssoc.$ID,
+            name: crossAssoc.name,
+            parentEntity: crossAssoc.parent,
+            childEntity: crossAssoc.child,
+            type: crossAssoc.type,
+            owner: crossAssoc.owner,
+            parentDeleteBehavior: crossAssoc.deleteBehavior.parentDeleteBehavior,
+            childDeleteBehavior: crossAssoc.deleteBehavior.childDeleteBehavior,
+            isCrossModule: true
+        });
+    }
+    
+    return { domainModelId: domainModel.$ID, entities, associations };
+}
+
+// Load the domain models of the given modules concurrently. A module that fails to load is
+// marked with its error instead of failing the whole load.
+async function collectModules(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    modules: ModuleInfo[],
+    onProgress?: (done: number, total: number) => void
+): Promise<{ modules: ModuleInfo[]; entities: OntologyEntity[]; associations: OntologyAssociation[] }> {
+    let done = 0;
+    onProgress?.(0, modules.length);
+    
+    const results = await mapConcurrently(modules, MODULE_LOAD_CONCURRENCY, async (module): Promise<[ModuleInfo, ModuleExtract | null]> => {
+        try {
+            const extract = await collectModule(studioPro, module.name);
+            return [{ ...module, domainModelId: extract.domainModelId, loaded: true, loadError: null }, extract];
+        } catch (err) {
+            return [{ ...module, loaded: false, loadError: `${err}` }, null];
+        } finally {
+            onProgress?.(++done, modules.length);
         }
+    });
+    
+    return {
+        modules: results.map(([module]) => module),
+        entities: results.flatMap(([, extract]) => extract ? extract.entities : []),
+        associations: results.flatMap(([, extract]) => extract ? extract.associations : [])
+    };
+}
+
+// Load the domain models of the given modules, and then those of the modules that generalizations of
+// the collected entities point into, along the whole chain. Persistability and system members are
+// inherited from the root of the chain, e.g. System.User, so it is loaded even when not selected.
+async function collectModulesWithGeneralizations(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    allModules: ModuleInfo[],
+    modules: ModuleInfo[],
+    loadedEntities: OntologyEntity[],
+    onProgress?: (done: number, total: number) => void
+): Promise<{ modules: ModuleInfo[]; entities: OntologyEntity[]; associations: OntologyAssociation[] }> {
+    const collected = await collectModules(studioPro, modules, onProgress);
+    const requested = new Set([...modules, ...allModules.filter(m => m.loaded)].map(m => m.name));
+    
+    const findMissingParents = () => {
+        const parentModules = new Set([...loadedEntities, ...collected.entities].flatMap(entity =>
+            entity.generalization ? [entity.generalization.substring(0, entity.generalization.indexOf("."))] : []));
+        return allModules.filter(m => parentModules.has(m.name) && !requested.has(m.name));
+    };
+    
+    let missing = findMissingParents();
+    while (missing.length > 0) {
+        missing.forEach(m => requested.add(m.name));
+        const parents = await collectModules(studioPro, missing);
+        collected.modules.push(...parents.modules);
+        collected.entities.push(...parents.entities);
+        collected.associations.push(...parents.associations);
+        missing = findMissingParents();
     }
+    return collected;
+}
+
+// Add the enumerations used by the entities. Enumeration details are optional - attributes still
+// name their enumeration without them.
+async function addEnumerations(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    models: CollectedDomainModels
+): Promise<OntologyData> {
+    let enumerations: OntologyEnumeration[] = [];
+    try {
+        enumerations = await collectEnumerations(studioPro, models.entities);
+    } catch {
+        // Shown without enumeration nodes
+    }
+    
+    return { ...models, enumerations };
+}
+
+// Collect the domain models of the modules for which `shouldLoad` is true, with the settings inherited
+// along generalizations. The other modules are listed without loading their domain model.
+async function collectDomainModels(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    shouldLoad: (module: ModuleInfo) => boolean,
+    onProgress?: (done: number, total: number) => void
+): Promise<CollectedDomainModels> {
+    const modules: ModuleInfo[] = (await studioPro.app.model.projects.getModules()).map(module => ({
+        name: module.name,
+        isMarketplace: module.fromAppStore,
+        isSystem: module.name === "System" || module.name === "MxModelReflection",
+        domainModelId: null,
+        loaded: false,
+        loadError: null
+    }));
     
+    const collected = await collectModulesWithGeneralizations(studioPro, modules, modules.filter(shouldLoad), [], onProgress);
+    const loaded = new Map(collected.modules.map(module => [module.name, module]));
+    inheritGeneralizationSettings(collected.entities);
     return {
-        entities,
-        associations,
-        modules: moduleInfos
+        modules: modules.map(module => loaded.get(module.name) || module),
+        entities: collected.entities,
+        associations: collected.associations
     };
 }
 
+// Function to collect ontology data directly from the API
+async function collectOntologyData(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    shouldLoad: (module: ModuleInfo) => boolean,
+    onProgress?: (done: number, total: number) => void
+): Promise<OntologyData> {
+    return addEnumerations(studioPro, await collectDomainModels(studioPro, shouldLoad, onProgress));
+}
+
+// Add the domain models of modules that were not loaded yet to already collected data
+async function loadAdditionalModules(
+    studioPro: ReturnType<typeof getStudioProApi>,
+    data: OntologyData,
+    moduleNames: Set<string>,
+    onProgress?: (done: number, total: number) => void
+): Promise<OntologyData> {
+    const collected = await collectModulesWithGeneralizations(
+        studioPro,
+        data.modules,
+        data.modules.filter(m => moduleNames.has(m.name)),
+        data.entities,
+        onProgress
+    );
+    const loaded = new Map(collected.modules.map(module => [module.name, module]));
+    // Copies, since the inherited settings are written to the entities
+    const entities = [...data.entities.map(entity => ({ ...entity })), ...collected.entities];
+    inheritGeneralizationSettings(entities);
+    return addEnumerations(studioPro, {
+        modules: data.modules.map(module => loaded.get(module.name) || module),
+        entities,
+        associations: [...data.associations, ...collected.associations]
+    });
+}
+
 // Mendix Studio Pro color palette
 const MENDIX_COLORS = {
     primary: "#0595DB",       // Mendix Blue
@@ -170,6 +418,7 @@ const MENDIX_COLORS = {
     success: "#76B947",       // Green
     warning: "#F0AD4E",       // Orange/Yellow
     error: "#E74856",         // Red
+    highlight: "#FFD93D",     // Search matches
     canvas: "#1E1E1E"         // Canvas/editor background
 };
 
@@ -185,152 +434,294 @@ function getModuleColor(moduleName: string, modules: ModuleInfo[]): string {
     return MODULE_COLORS[index % MODULE_COLORS.length];
 }
 
-// Force-directed layout algorithm
-function calculateLayout(entities: OntologyEntity[], associations: OntologyAssociation[]): Map<string, NodePosition> {
-    const positions = new Map<string, NodePosition>();
-    const width = 1200;
-    const height = 800;
-    
-    // Group entities by module
-    const moduleGroups = new Map<string, OntologyEntity[]>();
+// Colors and symbols of model diff changes
+const DIFF_COLORS: Record<ChangeKind, string> = {
+    added: MENDIX_COLORS.success,
+    removed: MENDIX_COLORS.error,
+    changed: MENDIX_COLORS.warning
+};
+
+const DIFF_SYMBOLS: Record<ChangeKind, string> = {
+    added: "+",
+    removed: "−",
+    changed: "~"
+};
+
+// Interval of the live update check of the model: at least this many milliseconds, and this many times
+// the duration of the last collection, so large apps are not collected over and over
+const LIVE_UPDATE_MIN_INTERVAL = 5000;
+const LIVE_UPDATE_LOAD_FACTOR = 5;
+
+// Level of detail: attributes and association labels are drawn from this zoom level on, and only
+// while at most this many entities are in view
+const DETAIL_MIN_ZOOM = 0.6;
+const DETAIL_MAX_ENTITIES = 250;
+
+// Margin around the canvas, in screen pixels, within which nodes are rendered so they do not pop in while panning
+const CULLING_MARGIN = 100;
+
+// Distance the canvas pans per arrow key press, in screen pixels
+const PAN_STEP = 60;
+
+// Arrow keys as unit vectors on the canvas
+const ARROW_DIRECTIONS: Record<string, NodePosition> = {
+    ArrowLeft: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 },
+    ArrowUp: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 }
+};
+
+// Zoom to fit: margin around the entities, in screen pixels, and the largest zoom, so a single entity is not blown up
+const FIT_PADDING = 40;
+const FIT_MAX_ZOOM = 1.5;
+
+// Rendered node size, also used to size module boxes around nodes
+const NODE_WIDTH = 180;
+
+function getNodeHeight(entity: OntologyEntity): number {
+    return 28 + Math.max(entity.attributes.length, 1) * 18 + 10;
+}
+
+// Bounding box of a module's nodes, used by the module cluster layout
+interface ModuleBox {
+    moduleName: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+function getModuleBoxes(entities: OntologyEntity[], positions: Map<string, NodePosition>): Map<string, ModuleBox> {
+    const padding = 30;
+    const boxes = new Map<string, ModuleBox>();
     entities.forEach(entity => {
-        const group = moduleGroups.get(entity.moduleName) || [];
-        group.push(entity);
-        moduleGroups.set(entity.moduleName, group);
-    });
-    
-    // Calculate initial positions - arrange modules in a grid pattern
-    const modules = Array.from(moduleGroups.keys());
-    const modulesPerRow = Math.ceil(Math.sqrt(modules.length));
-    const moduleWidth = width / modulesPerRow;
-    const moduleHeight = height / Math.ceil(modules.length / modulesPerRow);
-    
-    modules.forEach((moduleName, moduleIndex) => {
-        const moduleCol = moduleIndex % modulesPerRow;
-        const moduleRow = Math.floor(moduleIndex / modulesPerRow);
-        const moduleEntities = moduleGroups.get(moduleName) || [];
+        const pos = positions.get(entity.id);
+        if (!pos) return;
         
-        const entitiesPerRow = Math.ceil(Math.sqrt(moduleEntities.length));
-        const entityWidth = moduleWidth / (entitiesPerRow + 1);
-        const entityHeight = moduleHeight / (Math.ceil(moduleEntities.length / entitiesPerRow) + 1);
+        const left = pos.x - NODE_WIDTH / 2 - padding;
+        const top = pos.y - getNodeHeight(entity) / 2 - padding - 14;
+        const right = pos.x + NODE_WIDTH / 2 + padding;
+        const bottom = pos.y + getNodeHeight(entity) / 2 + padding;
         
-        moduleEntities.forEach((entity, entityIndex) => {
-            const entityCol = entityIndex % entitiesPerRow;
-            const entityRow = Math.floor(entityIndex / entitiesPerRow);
-            
-            positions.set(entity.id, {
-                x: moduleCol * moduleWidth + (entityCol + 1) * entityWidth,
-                y: moduleRow * moduleHeight + (entityRow + 1) * entityHeight
-            });
-        });
+        const box = boxes.get(entity.moduleName);
+        if (!box) {
+            boxes.set(entity.moduleName, { moduleName: entity.moduleName, x: left, y: top, width: right - left, height: bottom - top });
+            return;
+        }
+        const boxRight = Math.max(box.x + box.width, right);
+        const boxBottom = Math.max(box.y + box.height, bottom);
+        box.x = Math.min(box.x, left);
+        box.y = Math.min(box.y, top);
+        box.width = boxRight - box.x;
+        box.height = boxBottom - box.y;
+    });
+    return boxes;
+}
+
+// Keep the positions of entities that still exist and place new ones next to the entities they
+// are associated with (or else next to their module), without running a layout
+function placeNewEntities(data: OntologyData, positions: Map<string, NodePosition>): Map<string, NodePosition> {
+    const index = createEntityIndex(data.entities);
+    const placed = new Map<string, NodePosition>();
+    data.entities.forEach(entity => {
+        const pos = positions.get(entity.id);
+        if (pos) placed.set(entity.id, pos);
     });
     
-    // Apply simple force-directed adjustments
-    const iterations = 50;
-    const repulsionStrength = 5000;
-    const attractionStrength = 0.01;
+    const newEntities = data.entities.filter(entity => !placed.has(entity.id));
+    if (newEntities.length === 0) return placed;
     
-    for (let i = 0; i < iterations; i++) {
-        const forces = new Map<string, { fx: number; fy: number }>();
-        
-        // Initialize forces
-        entities.forEach(entity => {
-            forces.set(entity.id, { fx: 0, fy: 0 });
-        });
-        
-        // Repulsion between all nodes
-        entities.forEach((entity1, idx1) => {
-            entities.forEach((entity2, idx2) => {
-                if (idx1 >= idx2) return;
-                
-                const pos1 = positions.get(entity1.id)!;
-                const pos2 = positions.get(entity2.id)!;
-                
-                const dx = pos2.x - pos1.x;
-                const dy = pos2.y - pos1.y;
-                const distance = Math.sqrt(dx * dx + dy * dy) || 1;
-                
-                const force = repulsionStrength / (distance * distance);
-                const fx = (dx / distance) * force;
-                const fy = (dy / distance) * force;
-                
-                const f1 = forces.get(entity1.id)!;
-                const f2 = forces.get(entity2.id)!;
-                
-                f1.fx -= fx;
-                f1.fy -= fy;
-                f2.fx += fx;
-                f2.fy += fy;
-            });
-        });
-        
-        // Attraction along edges
-        associations.forEach(assoc => {
-            const parentEntity = entities.find(e => e.id === assoc.parentEntity || e.qualifiedName === assoc.parentEntity);
-            const childEntity = entities.find(e => e.id === assoc.childEntity || e.qualifiedName === assoc.childEntity);
-            
-            if (!parentEntity || !childEntity) return;
-            
-            const pos1 = positions.get(parentEntity.id);
-            const pos2 = positions.get(childEntity.id);
-            
-            if (!pos1 || !pos2) return;
-            
-            const dx = pos2.x - pos1.x;
-            const dy = pos2.y - pos1.y;
-            
-            const fx = dx * attractionStrength;
-            const fy = dy * attractionStrength;
-            
-            const f1 = forces.get(parentEntity.id)!;
-            const f2 = forces.get(childEntity.id)!;
-            
-            f1.fx += fx;
-            f1.fy += fy;
-            f2.fx -= fx;
-            f2.fy -= fy;
+    const known = data.entities.filter(entity => placed.has(entity.id));
+    const obstacles = known.map(entity => ({ ...placed.get(entity.id)!, width: NODE_WIDTH, height: getNodeHeight(entity) }));
+    const rightmost = Math.max(0, ...obstacles.map(box => box.x + box.width));
+    const getAnchors = (entity: OntologyEntity): NodePosition[] => {
+        const related = data.associations.flatMap(assoc => {
+            const parent = index.get(assoc.parentEntity);
+            const child = index.get(assoc.childEntity);
+            if (parent?.id === entity.id && child) return [child.id];
+            if (child?.id === entity.id && parent) return [parent.id];
+            return [];
         });
+        const generalization = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (generalization) related.push(generalization.id);
         
-        // Apply forces
-        entities.forEach(entity => {
-            const pos = positions.get(entity.id)!;
-            const force = forces.get(entity.id)!;
-            
-            pos.x = Math.max(100, Math.min(width - 100, pos.x + force.fx * 0.1));
-            pos.y = Math.max(50, Math.min(height - 50, pos.y + force.fy * 0.1));
-        });
-    }
+        const anchors = related.map(id => placed.get(id)).filter((pos): pos is NodePosition => pos !== undefined);
+        if (anchors.length > 0) return anchors;
+        const moduleAnchors = known
+            .filter(other => other.moduleName === entity.moduleName)
+            .map(other => placed.get(other.id)!);
+        return moduleAnchors.length > 0 ? moduleAnchors : [{ x: rightmost + 100, y: 150 }];
+    };
+    
+    placeSatelliteNodes(
+        newEntities.map(entity => ({ id: entity.id, anchors: getAnchors(entity), width: NODE_WIDTH, height: getNodeHeight(entity) })),
+        obstacles
+    ).forEach((pos, id) => placed.set(id, pos));
+    return placed;
+}
+
+// Point where the line from the box center towards `target` leaves the box
+function getBoxBorderPoint(box: ModuleBox, target: NodePosition): NodePosition {
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    const dx = target.x - centerX;
+    const dy = target.y - centerY;
+    if (dx === 0 && dy === 0) return { x: centerX, y: centerY };
+    
+    const scale = Math.min(
+        dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity,
+        dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity
+    );
+    return { x: centerX + dx * scale, y: centerY + dy * scale };
+}
+
+// Rectangle on the canvas in model coordinates, e.g. the part in view
+interface CanvasRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Whether the bounding box of the points, grown by the margin, overlaps the viewport
+function isInViewport(viewport: CanvasRect, points: NodePosition[], margin: number): boolean {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return Math.max(...xs) + margin >= viewport.x &&
+        Math.min(...xs) - margin <= viewport.x + viewport.width &&
+        Math.max(...ys) + margin >= viewport.y &&
+        Math.min(...ys) - margin <= viewport.y + viewport.height;
+}
+
+// Rectangle spanned by a rubber band, dragged in any direction
+function getRubberBandRect(band: { start: NodePosition; end: NodePosition }): CanvasRect {
+    return {
+        x: Math.min(band.start.x, band.end.x),
+        y: Math.min(band.start.y, band.end.y),
+        width: Math.abs(band.end.x - band.start.x),
+        height: Math.abs(band.end.y - band.start.y)
+    };
+}
+
+// Neighbor to move the keyboard focus to with an arrow key: the closest one in the direction of the
+// key, where an offset across the direction counts double. Null when no neighbor lies that way.
+function findNeighborInDirection(
+    from: NodePosition,
+    neighbors: Array<{ id: string; position: NodePosition }>,
+    direction: NodePosition
+): string | null {
+    let best: string | null = null;
+    let bestScore = Infinity;
+    neighbors.forEach(({ id, position }) => {
+        const dx = position.x - from.x;
+        const dy = position.y - from.y;
+        const along = dx * direction.x + dy * direction.y;
+        if (along <= 0) return;
+        const score = along + 2 * Math.abs(dx * direction.y - dy * direction.x);
+        if (score < bestScore) {
+            best = id;
+            bestScore = score;
+        }
+    });
+    return best;
+}
+
+// Screen reader label of an entity node: name, module, attribute count and relationships
+function describeEntity(entity: OntologyEntity, edges: GraphEdge[], index: Map<string, OntologyEntity>): string {
+    const nameOf = (id: string) => {
+        const other = index.get(id);
+        if (!other) return null;
+        return other.moduleName === entity.moduleName ? other.name : other.qualifiedName;
+    };
+    const names = (kind: GraphEdge["kind"], forward?: boolean) => Array.from(new Set(edges
+        .filter(edge => edge.kind === kind && (forward === undefined || edge.forward === forward))
+        .map(edge => nameOf(edge.target))
+        .filter((name): name is string => !!name)));
     
-    return positions;
+    const parts = [
+        `${entity.name}, entity in module ${entity.moduleName}`,
+        `${entity.attributes.length} ${entity.attributes.length === 1 ? "attribute" : "attributes"}`
+    ];
+    if (!entity.persistable) parts.push("non-persistable");
+    const associated = names("association");
+    if (associated.length > 0) parts.push(`associated with ${associated.join(", ")}`);
+    const generalization = names("generalization", true);
+    if (generalization.length > 0) parts.push(`specializes ${generalization[0]}`);
+    const specializations = names("generalization", false);
+    if (specializations.length > 0) parts.push(`specialized by ${specializations.join(", ")}`);
+    return parts.join("; ");
+}
+
+// Bounding box of the entity nodes, null when none of them is placed
+function getEntityBounds(entities: OntologyEntity[], positions: Map<string, NodePosition>): CanvasRect | null {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    entities.forEach(entity => {
+        const pos = positions.get(entity.id);
+        if (!pos) return;
+        const height = getNodeHeight(entity);
+        minX = Math.min(minX, pos.x - NODE_WIDTH / 2);
+        minY = Math.min(minY, pos.y - height / 2);
+        maxX = Math.max(maxX, pos.x + NODE_WIDTH / 2);
+        maxY = Math.max(maxY, pos.y + height / 2);
+    });
+    return minX === Infinity ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Stable function calling the latest callback, so memoized nodes do not re-render when the callback changes
+function useStableCallback<A extends unknown[], R>(callback: (...args: A) => R): (...args: A) => R {
+    const callbackRef = useRef(callback);
+    callbackRef.current = callback;
+    return useCallback((...args: A) => callbackRef.current(...args), []);
 }
 
 // Entity Node Component
 interface EntityNodeProps {
-    entity: GraphNode;
+    entity: OntologyEntity;
+    position: NodePosition;
     isSelected: boolean;
+    isOnPath?: boolean;
+    // Highlighted search match, or dimmed when false; undefined when search results are not highlighted
+    searchMatch?: boolean;
+    // Change against the compared snapshot, with the changed attributes
+    diff?: { kind: ChangeKind; attributes: Record<string, ChangeKind> };
     moduleColor: string;
-    onClick: () => void;
+    // Header only when false, e.g. when zoomed out
+    detailed: boolean;
+    // `additive` when shift-clicked
+    onClick: (entity: OntologyEntity, additive: boolean) => void;
+    onDoubleClick?: (entity: OntologyEntity) => void;
     onDrag: (id: string, x: number, y: number) => void;
+    // Screen reader label; the node can be focused with the keyboard when it is set. The canvas moves the
+    // focus between the nodes, so they are not in the tab order themselves.
+    label?: string;
+    // Has the keyboard focus, drawn as a ring around the node
+    isFocused?: boolean;
+    onFocusChange?: (entity: OntologyEntity, focused: boolean) => void;
 }
 
-const EntityNode: React.FC<EntityNodeProps> = ({ entity, isSelected, moduleColor, onClick, onDrag }) => {
+// Drag a node by its position, returns the mouse down handler for the node
+function useNodeDrag(
+    id: string,
+    position: NodePosition,
+    onDrag: (id: string, x: number, y: number) => void
+): (e: React.MouseEvent) => void {
     const isDragging = useRef(false);
     const dragOffset = useRef({ x: 0, y: 0 });
     
     const handleMouseDown = (e: React.MouseEvent) => {
         isDragging.current = true;
         dragOffset.current = {
-            x: e.clientX - entity.position.x,
-            y: e.clientY - entity.position.y
+            x: e.clientX - position.x,
+            y: e.clientY - position.y
         };
         e.stopPropagation();
     };
     
     const handleMouseMove = useCallback((e: MouseEvent) => {
         if (isDragging.current) {
-            onDrag(entity.id, e.clientX - dragOffset.current.x, e.clientY - dragOffset.current.y);
+            onDrag(id, e.clientX - dragOffset.current.x, e.clientY - dragOffset.current.y);
         }
-    }, [entity.id, onDrag]);
+    }, [id, onDrag]);
     
     const handleMouseUp = useCallback(() => {
         isDragging.current = false;
@@ -345,48 +736,82 @@ const EntityNode: React.FC<EntityNodeProps> = ({ entity, isSelected, moduleColor
         };
     }, [handleMouseMove, handleMouseUp]);
     
-    const nodeWidth = 180;
+    return handleMouseDown;
+}
+
+const EntityNode = React.memo(({ entity, position, isSelected, isOnPath, searchMatch, diff, moduleColor, detailed, onClick, onDoubleClick, onDrag, label, isFocused, onFocusChange }: EntityNodeProps) => {
+    const handleMouseDown = useNodeDrag(entity.id, position, onDrag);
+    
+    const nodeWidth = NODE_WIDTH;
     const headerHeight = 28;
     const attributeHeight = 18;
-    const nodeHeight = headerHeight + Math.max(entity.attributes.length, 1) * attributeHeight + 10;
+    const nodeHeight = getNodeHeight(entity);
     
     return (
         <g
-            transform={`translate(${entity.position.x - nodeWidth / 2}, ${entity.position.y - nodeHeight / 2})`}
-            style={{ cursor: "move" }}
+            transform={`translate(${position.x - nodeWidth / 2}, ${position.y - nodeHeight / 2})`}
+            style={{ cursor: "move", outline: "none" }}
+            opacity={searchMatch === false ? 0.3 : diff?.kind === "removed" ? 0.6 : 1}
+            data-entity-id={entity.id}
+            tabIndex={label ? -1 : undefined}
+            role={label ? "button" : undefined}
+            aria-label={label}
+            aria-pressed={label ? isSelected : undefined}
             onMouseDown={handleMouseDown}
-            onClick={(e) => { e.stopPropagation(); onClick(); }}
+            onClick={(e) => { e.stopPropagation(); onClick(entity, e.shiftKey); }}
+            onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick?.(entity); }}
+            onFocus={() => onFocusChange?.(entity, true)}
+            onBlur={() => onFocusChange?.(entity, false)}
         >
+            {/* Keyboard focus ring */}
+            {isFocused && (
+                <rect
+                    x={-5}
+                    y={-5}
+                    width={nodeWidth + 10}
+                    height={nodeHeight + 10}
+                    rx={9}
+                    fill="none"
+                    stroke={MENDIX_COLORS.textBright}
+                    strokeWidth={2}
+                    strokeDasharray="4,3"
+                />
+            )}
             {/* Shadow */}
-            <rect
-                x={3}
-                y={3}
-                width={nodeWidth}
-                height={nodeHeight}
-                rx={6}
-                fill="rgba(0,0,0,0.4)"
-            />
+            {detailed && (
+                <rect
+                    x={3}
+                    y={3}
+                    width={nodeWidth}
+                    height={nodeHeight}
+                    rx={6}
+                    fill="rgba(0,0,0,0.4)"
+                />
+            )}
             {/* Background */}
             <rect
                 width={nodeWidth}
                 height={nodeHeight}
                 rx={6}
                 fill={MENDIX_COLORS.surface}
-                stroke={isSelected ? MENDIX_COLORS.primary : moduleColor}
-                strokeWidth={isSelected ? 3 : 2}
+                stroke={isSelected ? MENDIX_COLORS.primary : diff ? DIFF_COLORS[diff.kind] : isOnPath ? MENDIX_COLORS.success : searchMatch ? MENDIX_COLORS.highlight : moduleColor}
+                strokeWidth={isSelected || isOnPath || diff || searchMatch ? 3 : 2}
+                strokeDasharray={entity.persistable ? undefined : "6,3"}
             />
-            {/* Header */}
+            {/* Header - faded for non-persistable entities */}
             <rect
                 width={nodeWidth}
                 height={headerHeight}
                 rx={6}
                 fill={moduleColor}
+                fillOpacity={entity.persistable ? 1 : 0.45}
             />
             <rect
                 y={headerHeight - 6}
                 width={nodeWidth}
                 height={6}
                 fill={moduleColor}
+                fillOpacity={entity.persistable ? 1 : 0.45}
             />
             {/* Entity name */}
             <text
@@ -399,136 +824,1209 @@ const EntityNode: React.FC<EntityNodeProps> = ({ entity, isSelected, moduleColor
             >
                 {entity.name}
             </text>
-            {/* Module name */}
-            <text
-                x={nodeWidth / 2}
-                y={headerHeight + 15}
-                textAnchor="middle"
-                fill={MENDIX_COLORS.textMuted}
-                fontSize={9}
-                fontStyle="italic"
-            >
-                {entity.moduleName}
-            </text>
-            {/* Attributes */}
-            {entity.attributes.slice(0, 8).map((attr, idx) => (
-                <text
-                    key={attr.name}
-                    x={10}
-                    y={headerHeight + 30 + idx * attributeHeight}
-                    fill={MENDIX_COLORS.text}
-                    fontSize={10}
-                >
-                    {attr.name}: <tspan fill={MENDIX_COLORS.textMuted}>{attr.type}</tspan>
-                </text>
-            ))}
-            {entity.attributes.length > 8 && (
-                <text
-                    x={10}
-                    y={headerHeight + 30 + 8 * attributeHeight}
-                    fill={MENDIX_COLORS.textMuted}
-                    fontSize={10}
-                    fontStyle="italic"
-                >
-                    ... +{entity.attributes.length - 8} more
-                </text>
+            {detailed && (
+                <>
+                    {/* Module name */}
+                    <text
+                        x={nodeWidth / 2}
+                        y={headerHeight + 15}
+                        textAnchor="middle"
+                        fill={MENDIX_COLORS.textMuted}
+                        fontSize={9}
+                        fontStyle="italic"
+                    >
+                        {entity.persistable ? entity.moduleName : `${entity.moduleName} · non-persistable`}
+                    </text>
+                    {/* Attributes */}
+                    {entity.attributes.slice(0, 8).map((attr, idx) => (
+                        <text
+                            key={attr.name}
+                            x={10}
+                            y={headerHeight + 30 + idx * attributeHeight}
+                            fill={diff?.attributes[attr.name] ? DIFF_COLORS[diff.attributes[attr.name]] : MENDIX_COLORS.text}
+                            fontSize={10}
+                        >
+                            {attr.name}: <tspan fill={MENDIX_COLORS.textMuted}>{formatAttributeType(attr)}</tspan>
+                        </text>
+                    ))}
+                    {entity.attributes.length > 8 && (
+                        <text
+                            x={10}
+                            y={headerHeight + 30 + 8 * attributeHeight}
+                            fill={MENDIX_COLORS.textMuted}
+                            fontSize={10}
+                            fontStyle="italic"
+                        >
+                            ... +{entity.attributes.length - 8} more
+                        </text>
+                    )}
+                </>
             )}
         </g>
     );
+});
+
+// Association colors, each with an arrowhead marker shared by all edges of that color
+const ASSOCIATION_COLORS = {
+    regular: "#666",
+    crossModule: "#FF5722",
+    path: MENDIX_COLORS.success,
+    added: DIFF_COLORS.added,
+    removed: DIFF_COLORS.removed,
+    changed: DIFF_COLORS.changed
 };
 
+type AssociationColor = keyof typeof ASSOCIATION_COLORS;
+
+// Arrowhead markers for the canvas defs
+const AssociationArrowMarkers: React.FC = () => (
+    <>
+        {(Object.keys(ASSOCIATION_COLORS) as AssociationColor[]).map(key => (
+            <marker
+                key={key}
+                id={`association-arrow-${key}`}
+                viewBox="0 0 10 10"
+                refX="9"
+                refY="5"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto-start-reverse"
+            >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={ASSOCIATION_COLORS[key]} />
+            </marker>
+        ))}
+    </>
+);
+
 // Association Edge Component
 interface AssociationEdgeProps {
     association: OntologyAssociation;
     sourcePos: NodePosition | undefined;
     targetPos: NodePosition | undefined;
     isHighlighted: boolean;
+    // Part of the path shown by the path finder
+    isOnPath?: boolean;
+    // Optional waypoints, e.g. module box exits for edges between clusters
+    route?: NodePosition[];
+    // Change against the compared snapshot
+    diffKind?: ChangeKind;
+    // Line only when false, without name, multiplicities and badges
+    detailed: boolean;
 }
 
-const AssociationEdge: React.FC<AssociationEdgeProps> = ({ association, sourcePos, targetPos, isHighlighted }) => {
+const AssociationEdge = React.memo(({ association, sourcePos, targetPos, isHighlighted, isOnPath, route, diffKind, detailed }: AssociationEdgeProps) => {
     if (!sourcePos || !targetPos) return null;
     
-    const dx = targetPos.x - sourcePos.x;
-    const dy = targetPos.y - sourcePos.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Offset to start/end at node edge
+    // Offset to start/end at node edge, in the direction of the adjacent point on the path
     const nodeRadius = 90;
-    const offsetX = (dx / distance) * nodeRadius;
-    const offsetY = (dy / distance) * nodeRadius;
+    const offsetTowards = (from: NodePosition, to: NodePosition) => {
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+        return { x: from.x + (dx / distance) * nodeRadius, y: from.y + (dy / distance) * nodeRadius };
+    };
     
-    const x1 = sourcePos.x + offsetX;
-    const y1 = sourcePos.y + offsetY;
-    const x2 = targetPos.x - offsetX;
-    const y2 = targetPos.y - offsetY;
+    const firstHop = route && route.length > 0 ? route[0] : targetPos;
+    const lastHop = route && route.length > 0 ? route[route.length - 1] : sourcePos;
+    const { x: x1, y: y1 } = offsetTowards(sourcePos, firstHop);
+    const { x: x2, y: y2 } = offsetTowards(targetPos, lastHop);
+    
+    let pathD: string;
+    let labelX: number;
+    let labelY: number;
+    // Points the path leaves the source towards and arrives at the target from, for the end decorations
+    let startTowards: NodePosition;
+    let endFrom: NodePosition;
     
-    // Control point for curve
-    const midX = (x1 + x2) / 2;
-    const midY = (y1 + y2) / 2;
-    const perpX = -(y2 - y1) * 0.1;
-    const perpY = (x2 - x1) * 0.1;
+    if (route && route.length > 0) {
+        // Polyline through the waypoints, label halfway along the middle segment
+        pathD = [`M ${x1} ${y1}`, ...route.map(p => `L ${p.x} ${p.y}`), `L ${x2} ${y2}`].join(" ");
+        const points = [{ x: x1, y: y1 }, ...route, { x: x2, y: y2 }];
+        const middle = Math.floor((points.length - 1) / 2);
+        labelX = (points[middle].x + points[middle + 1].x) / 2;
+        labelY = (points[middle].y + points[middle + 1].y) / 2;
+        startTowards = route[0];
+        endFrom = route[route.length - 1];
+    } else {
+        // Control point for curve
+        const midX = (x1 + x2) / 2;
+        const midY = (y1 + y2) / 2;
+        const perpX = -(y2 - y1) * 0.1;
+        const perpY = (x2 - x1) * 0.1;
+        
+        pathD = `M ${x1} ${y1} Q ${midX + perpX} ${midY + perpY} ${x2} ${y2}`;
+        
+        // Calculate label position
+        labelX = midX + perpX;
+        labelY = midY + perpY;
+        startTowards = endFrom = { x: midX + perpX, y: midY + perpY };
+    }
     
-    const pathD = `M ${x1} ${y1} Q ${midX + perpX} ${midY + perpY} ${x2} ${y2}`;
+    const colorKey: AssociationColor = isOnPath ? "path" : diffKind ? diffKind : association.isCrossModule ? "crossModule" : "regular";
+    const color = ASSOCIATION_COLORS[colorKey];
+    const strokeWidth = isOnPath ? 4 : isHighlighted || diffKind ? 3 : 1.5;
+    const multiplicity = getMultiplicity(association);
+    const isBidirectional = association.owner === "Both";
     
-    const color = association.isCrossModule ? "#FF5722" : "#666";
-    const strokeWidth = isHighlighted ? 3 : 1.5;
+    // Position relative to an association end: `along` the path into the edge, `across` to its left
+    const atEnd = (end: NodePosition, towards: NodePosition, along: number, across: number) => {
+        const dx = towards.x - end.x;
+        const dy = towards.y - end.y;
+        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+        return {
+            x: end.x + (dx / distance) * along + (dy / distance) * across,
+            y: end.y + (dy / distance) * along - (dx / distance) * across
+        };
+    };
     
-    // Calculate label position
-    const labelX = midX + perpX;
-    const labelY = midY + perpY;
+    // The parent owns the reference, so the child end is owned by the parent (and vice versa for "Both")
+    const ends = [
+        {
+            key: "parent",
+            point: { x: x1, y: y1 },
+            towards: startTowards,
+            multiplicity: multiplicity.parent,
+            isOwned: isBidirectional,
+            deleteBehavior: getDeleteBehaviorKind(association.parentDeleteBehavior),
+            entity: association.parentEntity,
+            other: association.childEntity
+        },
+        {
+            key: "child",
+            point: { x: x2, y: y2 },
+            towards: endFrom,
+            multiplicity: multiplicity.child,
+            isOwned: true,
+            deleteBehavior: getDeleteBehaviorKind(association.childDeleteBehavior),
+            entity: association.childEntity,
+            other: association.parentEntity
+        }
+    ];
     
+    // Hidden from screen readers, the entity labels list the relationships
     return (
-        <g>
-            <defs>
-                <marker
-                    id={`arrow-${association.id}`}
-                    viewBox="0 0 10 10"
-                    refX="9"
-                    refY="5"
-                    markerWidth="6"
-                    markerHeight="6"
-                    orient="auto"
-                >
-                    <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
-                </marker>
-            </defs>
+        <g aria-hidden="true">
+            {/* Arrowheads point in the navigable directions: to the child, and back when owned by both */}
             <path
                 d={pathD}
                 fill="none"
                 stroke={color}
                 strokeWidth={strokeWidth}
                 strokeDasharray={association.type === "ReferenceSet" ? "5,5" : "none"}
-                markerEnd={`url(#arrow-${association.id})`}
-                opacity={isHighlighted ? 1 : 0.6}
+                markerEnd={`url(#association-arrow-${colorKey})`}
+                markerStart={isBidirectional ? `url(#association-arrow-${colorKey})` : undefined}
+                opacity={isHighlighted || isOnPath ? 1 : 0.6}
             />
-            {/* Association name label */}
-            <text
-                x={labelX}
-                y={labelY - 5}
-                textAnchor="middle"
-                fill={color}
-                fontSize={9}
-                fontWeight={isHighlighted ? "bold" : "normal"}
-            >
-                {association.name}
-            </text>
-            {/* Multiplicity indicator */}
-            <text
-                x={labelX}
-                y={labelY + 8}
-                textAnchor="middle"
-                fill={MENDIX_COLORS.textMuted}
-                fontSize={8}
-            >
-                {association.type === "Reference" ? "1:N" : "N:M"}
-            </text>
-        </g>
-    );
-};
-
-// Main Ontology Viewer Component
-interface OntologyViewerProps {
-    studioPro: ReturnType<typeof getStudioProApi>;
+            {detailed && (
+                <>
+                    {/* Association name label */}
+                    <text
+                        x={labelX}
+                        y={labelY - 5}
+                        textAnchor="middle"
+                        fill={color}
+                        fontSize={9}
+                        fontWeight={isHighlighted || isOnPath ? "bold" : "normal"}
+                    >
+                        {association.name}
+                    </text>
+                    {ends.map(end => {
+                        const label = atEnd(end.point, end.towards, 24, 10);
+                        const dot = atEnd(end.point, end.towards, 16, 0);
+                        const badge = atEnd(end.point, end.towards, 24, -12);
+                        return (
+                            <g key={end.key}>
+                                {/* UML multiplicity */}
+                                <text
+                                    x={label.x}
+                                    y={label.y + 3}
+                                    textAnchor="middle"
+                                    fill={MENDIX_COLORS.text}
+                                    fontSize={9}
+                                >
+                                    {end.multiplicity}
+                                </text>
+                                {/* Ownership dot */}
+                                {end.isOwned && (
+                                    <circle cx={dot.x} cy={dot.y} r={3} fill={color} />
+                                )}
+                                {/* Delete behavior of this end */}
+                                {end.deleteBehavior !== "keep" && (
+                                    <g>
+                                        <title>
+                                            {end.deleteBehavior === "cascade"
+                                                ? `Deleting ${end.entity} also deletes the associated ${end.other} objects`
+                                                : `${end.entity} cannot be deleted while associated ${end.other} objects exist`}
+                                        </title>
+                                        <circle
+                                            cx={badge.x}
+                                            cy={badge.y}
+                                            r={6}
+                                            fill={end.deleteBehavior === "cascade" ? MENDIX_COLORS.error : MENDIX_COLORS.warning}
+                                        />
+                                        <text
+                                            x={badge.x}
+                                            y={badge.y + 3}
+                                            textAnchor="middle"
+                                            fill={MENDIX_COLORS.textBright}
+                                            fontSize={8}
+                                            fontWeight="bold"
+                                        >
+                                            {end.deleteBehavior === "cascade" ? "✕" : "!"}
+                                        </text>
+                                    </g>
+                                )}
+                            </g>
+                        );
+                    })}
+                </>
+            )}
+        </g>
+    );
+});
+
+// Generalization Edge Component
+interface GeneralizationEdgeProps {
+    specialization: OntologyEntity;
+    sourcePos: NodePosition | undefined;
+    targetPos: NodePosition | undefined;
+    isHighlighted: boolean;
+}
+
+const GeneralizationEdge = React.memo(({ specialization, sourcePos, targetPos, isHighlighted }: GeneralizationEdgeProps) => {
+    if (!sourcePos || !targetPos) return null;
+    
+    const dx = targetPos.x - sourcePos.x;
+    const dy = targetPos.y - sourcePos.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    
+    // Offset to start/end at node edge
+    const nodeRadius = 90;
+    const offsetX = (dx / distance) * nodeRadius;
+    const offsetY = (dy / distance) * nodeRadius;
+    
+    const x1 = sourcePos.x + offsetX;
+    const y1 = sourcePos.y + offsetY;
+    const x2 = targetPos.x - offsetX;
+    const y2 = targetPos.y - offsetY;
+    
+    const color = MENDIX_COLORS.warning;
+    
+    return (
+        <line
+            x1={x1}
+            y1={y1}
+            x2={x2}
+            y2={y2}
+            stroke={color}
+            strokeWidth={isHighlighted ? 3 : 1.5}
+            markerEnd="url(#generalization-arrow)"
+            opacity={isHighlighted ? 1 : 0.7}
+            aria-hidden="true"
+        >
+            <title>{specialization.qualifiedName} extends {specialization.generalization}</title>
+        </line>
+    );
+});
+
+// Enumeration Node Component
+const ENUMERATION_NODE_WIDTH = 160;
+
+function getEnumerationNodeHeight(enumeration: OntologyEnumeration): number {
+    return 34 + Math.min(Math.max(enumeration.values.length, 1), 9) * 16 + 8;
+}
+
+interface EnumerationNodeProps {
+    enumeration: OntologyEnumeration;
+    position: NodePosition;
+    isSelected: boolean;
+    moduleColor: string;
+    onClick: () => void;
+    onDoubleClick?: () => void;
+    onDrag: (id: string, x: number, y: number) => void;
+}
+
+const EnumerationNode: React.FC<EnumerationNodeProps> = ({ enumeration, position, isSelected, moduleColor, onClick, onDoubleClick, onDrag }) => {
+    const handleMouseDown = useNodeDrag(enumeration.qualifiedName, position, onDrag);
+    
+    const nodeWidth = ENUMERATION_NODE_WIDTH;
+    const nodeHeight = getEnumerationNodeHeight(enumeration);
+    const shownValues = enumeration.values.length > 9 ? enumeration.values.slice(0, 8) : enumeration.values;
+    
+    return (
+        <g
+            transform={`translate(${position.x - nodeWidth / 2}, ${position.y - nodeHeight / 2})`}
+            style={{ cursor: "move" }}
+            onMouseDown={handleMouseDown}
+            onClick={(e) => { e.stopPropagation(); onClick(); }}
+            onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick?.(); }}
+        >
+            <rect
+                width={nodeWidth}
+                height={nodeHeight}
+                rx={4}
+                fill={MENDIX_COLORS.surfaceLight}
+                stroke={isSelected ? MENDIX_COLORS.primary : moduleColor}
+                strokeWidth={isSelected ? 3 : 1.5}
+            />
+            <text x={nodeWidth / 2} y={13} textAnchor="middle" fill={MENDIX_COLORS.textMuted} fontSize={9}>
+                «enumeration»
+            </text>
+            <text x={nodeWidth / 2} y={27} textAnchor="middle" fill={MENDIX_COLORS.textBright} fontWeight="bold" fontSize={11}>
+                {enumeration.name}
+            </text>
+            {shownValues.map((value, idx) => (
+                <text key={value.name} x={10} y={48 + idx * 16} fill={MENDIX_COLORS.text} fontSize={10}>
+                    {value.name}
+                </text>
+            ))}
+            {enumeration.values.length > 9 && (
+                <text x={10} y={48 + 8 * 16} fill={MENDIX_COLORS.textMuted} fontSize={10} fontStyle="italic">
+                    ... +{enumeration.values.length - 8} more
+                </text>
+            )}
+        </g>
+    );
+};
+
+// Enumeration Usage Edge Component - attribute of an entity typed by an enumeration
+interface EnumerationEdgeProps {
+    attributeNames: string[];
+    entityPos: NodePosition | undefined;
+    enumerationPos: NodePosition | undefined;
+    isHighlighted: boolean;
+}
+
+const EnumerationEdge: React.FC<EnumerationEdgeProps> = ({ attributeNames, entityPos, enumerationPos, isHighlighted }) => {
+    if (!entityPos || !enumerationPos) return null;
+    
+    return (
+        <g opacity={isHighlighted ? 1 : 0.6}>
+            <line
+                x1={entityPos.x}
+                y1={entityPos.y}
+                x2={enumerationPos.x}
+                y2={enumerationPos.y}
+                stroke={MENDIX_COLORS.textMuted}
+                strokeWidth={isHighlighted ? 2.5 : 1.2}
+                strokeDasharray="2,4"
+            />
+            <text
+                x={(entityPos.x + enumerationPos.x) / 2}
+                y={(entityPos.y + enumerationPos.y) / 2 - 4}
+                textAnchor="middle"
+                fill={MENDIX_COLORS.textMuted}
+                fontSize={9}
+            >
+                {attributeNames.join(", ")}
+            </text>
+        </g>
+    );
+};
+
+// Minimap Component - the filtered entities as dots, with the part in view as a draggable rectangle
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+
+interface MinimapProps {
+    entities: OntologyEntity[];
+    positions: Map<string, NodePosition>;
+    modules: ModuleInfo[];
+    visibleArea: CanvasRect;
+    onCenter: (pos: NodePosition) => void;
+}
+
+const Minimap: React.FC<MinimapProps> = ({ entities, positions, modules, visibleArea, onCenter }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    // Offset of the pointer from the center of the part in view while dragging
+    const dragOffset = useRef<NodePosition | null>(null);
+    const toModelRef = useRef<(clientX: number, clientY: number) => NodePosition>(() => ({ x: 0, y: 0 }));
+    const onCenterRef = useRef(onCenter);
+    onCenterRef.current = onCenter;
+    
+    useEffect(() => {
+        const handleMouseMove = (e: MouseEvent) => {
+            if (!dragOffset.current) return;
+            const pos = toModelRef.current(e.clientX, e.clientY);
+            onCenterRef.current({ x: pos.x - dragOffset.current.x, y: pos.y - dragOffset.current.y });
+        };
+        const handleMouseUp = () => {
+            dragOffset.current = null;
+        };
+        window.addEventListener("mousemove", handleMouseMove);
+        window.addEventListener("mouseup", handleMouseUp);
+        return () => {
+            window.removeEventListener("mousemove", handleMouseMove);
+            window.removeEventListener("mouseup", handleMouseUp);
+        };
+    }, []);
+    
+    const bounds = getEntityBounds(entities, positions);
+    if (!bounds) return null;
+    
+    // Fit the entities into the minimap, centered
+    const scale = Math.min(MINIMAP_WIDTH / bounds.width, MINIMAP_HEIGHT / bounds.height) * 0.9;
+    const offsetX = (MINIMAP_WIDTH - bounds.width * scale) / 2 - bounds.x * scale;
+    const offsetY = (MINIMAP_HEIGHT - bounds.height * scale) / 2 - bounds.y * scale;
+    toModelRef.current = (clientX, clientY) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: (clientX - rect.left - offsetX) / scale, y: (clientY - rect.top - offsetY) / scale };
+    };
+    
+    // Drag the rectangle from where it was grabbed; a click elsewhere centers the view there
+    const handleMouseDown = (e: React.MouseEvent) => {
+        e.preventDefault();
+        const pos = toModelRef.current(e.clientX, e.clientY);
+        const center = { x: visibleArea.x + visibleArea.width / 2, y: visibleArea.y + visibleArea.height / 2 };
+        if (isInViewport(visibleArea, [pos], 0)) {
+            dragOffset.current = { x: pos.x - center.x, y: pos.y - center.y };
+        } else {
+            dragOffset.current = { x: 0, y: 0 };
+            onCenter(pos);
+        }
+    };
+    
+    return (
+        <svg
+            ref={svgRef}
+            width={MINIMAP_WIDTH}
+            height={MINIMAP_HEIGHT}
+            style={styles.minimap}
+            aria-hidden="true"
+            onMouseDown={handleMouseDown}
+        >
+            {entities.map(entity => {
+                const pos = positions.get(entity.id);
+                if (!pos) return null;
+                return (
+                    <circle
+                        key={entity.id}
+                        cx={pos.x * scale + offsetX}
+                        cy={pos.y * scale + offsetY}
+                        r={2}
+                        fill={getModuleColor(entity.moduleName, modules)}
+                    />
+                );
+            })}
+            <rect
+                x={visibleArea.x * scale + offsetX}
+                y={visibleArea.y * scale + offsetY}
+                width={visibleArea.width * scale}
+                height={visibleArea.height * scale}
+                fill={MENDIX_COLORS.primary}
+                fillOpacity={0.12}
+                stroke={MENDIX_COLORS.primary}
+                strokeWidth={1.5}
+                style={{ cursor: "move" }}
+            />
+        </svg>
+    );
+};
+
+// Outcome of the last press of a Copy button. The clipboard can be unavailable in the web view,
+// in which case the text has to be saved to a file instead.
+type CopyResult = "copied" | "failed" | null;
+
+async function copyToClipboard(text: string): Promise<CopyResult> {
+    try {
+        await navigator.clipboard.writeText(text);
+        return "copied";
+    } catch {
+        return "failed";
+    }
+}
+
+// Class Diagram Text Panel Component
+interface DiagramTextPanelProps {
+    format: DiagramFormat;
+    text: string;
+    onFormatChange: (format: DiagramFormat) => void;
+    onClose: () => void;
+}
+
+const DiagramTextPanel: React.FC<DiagramTextPanelProps> = ({ format, text, onFormatChange, onClose }) => {
+    const [copyResult, setCopyResult] = useState<CopyResult>(null);
+    
+    useEffect(() => {
+        setCopyResult(null);
+    }, [format, text]);
+    
+    const handleCopy = async () => {
+        setCopyResult(await copyToClipboard(text));
+    };
+    
+    return (
+        <div style={styles.diagramPanel}>
+            <div style={styles.diagramTabs}>
+                {(["plantuml", "mermaid"] as DiagramFormat[]).map(f => (
+                    <button
+                        key={f}
+                        onClick={() => onFormatChange(f)}
+                        style={{
+                            ...styles.dropdownActionButton,
+                            ...(f === format ? styles.activeTab : {})
+                        }}
+                    >
+                        {f === "plantuml" ? "PlantUML" : "Mermaid"}
+                    </button>
+                ))}
+            </div>
+            <textarea readOnly value={text} style={styles.diagramText} />
+            <div style={styles.diagramTabs}>
+                <button onClick={handleCopy} style={styles.resetButton}>
+                    {copyResult === "copied" ? "Copied ✓" : copyResult === "failed" ? "Copy failed, use Save to file" : "Copy"}
+                </button>
+                <button
+                    onClick={() => downloadFile(`domain-model.${DIAGRAM_FILE_EXTENSIONS[format]}`, text)}
+                    style={styles.resetButton}
+                >
+                    Save to file
+                </button>
+                <button onClick={onClose} style={{ ...styles.refreshButton, marginLeft: "auto" }}>
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Path Finder Panel Component
+interface PathQuery {
+    // Qualified names as typed or picked by the user
+    source: string;
+    target: string;
+    respectNavigability: boolean;
+}
+
+interface PathFinderPanelProps {
+    query: PathQuery;
+    entities: OntologyEntity[];
+    entityIndex: Map<string, OntologyEntity>;
+    path: PathStep[] | null;
+    onChange: (query: PathQuery) => void;
+    onSelectEntity: (id: string) => void;
+    onClose: () => void;
+}
+
+const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+    query, entities, entityIndex, path, onChange, onSelectEntity, onClose
+}) => {
+    const source = entityIndex.get(query.source);
+    const target = entityIndex.get(query.target);
+    
+    const entityLink = (id: string) => (
+        <button onClick={() => onSelectEntity(id)} style={{ ...styles.inlineLinkButton, display: "inline", fontSize: "12px" }}>
+            {entityIndex.get(id)?.qualifiedName || id}
+        </button>
+    );
+    
+    return (
+        <div style={styles.pathPanel}>
+            <h4 style={{ ...styles.detailsSubtitle, margin: 0 }}>Find path</h4>
+            <datalist id="path-finder-entities">
+                {entities.map(entity => (
+                    <option key={entity.id} value={entity.qualifiedName} />
+                ))}
+            </datalist>
+            <div style={styles.imageExportRow}>
+                <span style={styles.imageExportLabel}>From</span>
+                <input
+                    type="text"
+                    list="path-finder-entities"
+                    placeholder="Module.Entity"
+                    value={query.source}
+                    onChange={(e) => onChange({ ...query, source: e.target.value })}
+                    style={{ ...styles.searchInput, width: "auto", flex: 1 }}
+                />
+            </div>
+            <div style={styles.imageExportRow}>
+                <span style={styles.imageExportLabel}>To</span>
+                <input
+                    type="text"
+                    list="path-finder-entities"
+                    placeholder="Module.Entity"
+                    value={query.target}
+                    onChange={(e) => onChange({ ...query, target: e.target.value })}
+                    style={{ ...styles.searchInput, width: "auto", flex: 1 }}
+                />
+            </div>
+            <div style={styles.imageExportRow}>
+                <label style={styles.toggleLabel}>
+                    <input
+                        type="checkbox"
+                        checked={query.respectNavigability}
+                        onChange={(e) => onChange({ ...query, respectNavigability: e.target.checked })}
+                    />
+                    Only navigable from owner
+                </label>
+                <button
+                    onClick={() => onChange({ ...query, source: query.target, target: query.source })}
+                    style={{ ...styles.dropdownActionButton, flex: "none", marginLeft: "auto" }}
+                    title="Swap source and target"
+                >
+                    ⇅ Swap
+                </button>
+            </div>
+            
+            {(!source || !target) && (
+                <p style={styles.pathHint}>Pick a source and a target entity.</p>
+            )}
+            {source && target && !path && (
+                <p style={styles.pathHint}>
+                    No association path from {source.name} to {target.name}
+                    {query.respectNavigability ? " that is navigable from the owner." : "."}
+                </p>
+            )}
+            {source && target && path && (
+                <>
+                    <p style={styles.pathHint}>
+                        {path.length === 1 ? "1 hop" : `${path.length} hops`}
+                    </p>
+                    <ol style={styles.pathList}>
+                        <li style={styles.attributeItem}>{entityLink(source.id)}</li>
+                        {path.map(step => (
+                            <li key={step.association.id} style={styles.attributeItem}>
+                                <span style={{ fontSize: "11px", color: MENDIX_COLORS.textMuted }}>
+                                    {step.forward ? "→" : "←"} {step.association.name}
+                                    {step.forward ? "" : " (against owner)"}
+                                </span>
+                                <br />
+                                {entityLink(step.to)}
+                            </li>
+                        ))}
+                    </ol>
+                    {path.length > 0 && (
+                        <code style={styles.pathXPath}>{toXPathPath(path, entityIndex)}</code>
+                    )}
+                </>
+            )}
+            <button onClick={onClose} style={{ ...styles.refreshButton, alignSelf: "flex-end" }}>
+                Close
+            </button>
+        </div>
+    );
+};
+
+// Lint Panel Component
+interface LintPanelProps {
+    findings: LintFinding[];
+    config: LintConfig;
+    includeMarketplace: boolean;
+    onConfigChange: (config: LintConfig) => void;
+    onIncludeMarketplaceChange: (include: boolean) => void;
+    onSelectFinding: (finding: LintFinding) => void;
+    onClose: () => void;
+}
+
+const LintPanel: React.FC<LintPanelProps> = ({
+    findings, config, includeMarketplace, onConfigChange, onIncludeMarketplaceChange, onSelectFinding, onClose
+}) => {
+    const [tab, setTab] = useState<"findings" | "rules">("findings");
+    
+    const updateRule = (ruleId: string, changes: Partial<LintConfig[string]>) => {
+        onConfigChange({ ...config, [ruleId]: { ...config[ruleId], ...changes } });
+    };
+    
+    return (
+        <div style={styles.pathPanel}>
+            <div style={styles.diagramTabs}>
+                <button
+                    onClick={() => setTab("findings")}
+                    style={{ ...styles.dropdownActionButton, ...(tab === "findings" ? styles.activeTab : {}) }}
+                >
+                    Findings ({findings.length})
+                </button>
+                <button
+                    onClick={() => setTab("rules")}
+                    style={{ ...styles.dropdownActionButton, ...(tab === "rules" ? styles.activeTab : {}) }}
+                >
+                    Rules
+                </button>
+            </div>
+            
+            {tab === "findings" && (
+                <div style={styles.lintList}>
+                    {findings.length === 0 && <p style={styles.pathHint}>No findings.</p>}
+                    {LINT_RULES.map(rule => {
+                        const ruleFindings = findings.filter(f => f.ruleId === rule.id);
+                        if (ruleFindings.length === 0) return null;
+                        return (
+                            <div key={rule.id}>
+                                <h4 style={{ ...styles.detailsSubtitle, margin: "8px 0 4px 0" }}>
+                                    {rule.name} ({ruleFindings.length})
+                                </h4>
+                                {ruleFindings.map((finding, idx) => (
+                                    <button
+                                        key={idx}
+                                        onClick={() => onSelectFinding(finding)}
+                                        style={styles.lintFinding}
+                                        disabled={!finding.entityId}
+                                    >
+                                        <span style={{ color: finding.severity === "warning" ? MENDIX_COLORS.warning : MENDIX_COLORS.primary }}>
+                                            {finding.severity === "warning" ? "⚠" : "ℹ"}
+                                        </span>{" "}
+                                        {finding.message}
+                                    </button>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            
+            {tab === "rules" && (
+                <div style={styles.lintList}>
+                    <label style={{ ...styles.toggleLabel, marginBottom: "8px" }}>
+                        <input
+                            type="checkbox"
+                            checked={includeMarketplace}
+                            onChange={(e) => onIncludeMarketplaceChange(e.target.checked)}
+                        />
+                        Check Marketplace and system modules
+                    </label>
+                    {LINT_RULES.map(rule => {
+                        const settings = config[rule.id] || rule.defaults;
+                        return (
+                            <div key={rule.id} style={styles.lintRule}>
+                                <label style={styles.toggleLabel}>
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.enabled}
+                                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                                    />
+                                    {rule.name}
+                                </label>
+                                {rule.defaults.threshold !== undefined && (
+                                    <div style={styles.imageExportRow}>
+                                        <span style={{ ...styles.imageExportLabel, width: "90px" }}>{rule.settingLabel}</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={settings.threshold ?? rule.defaults.threshold}
+                                            onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) })}
+                                            style={{ ...styles.searchInput, width: "70px" }}
+                                        />
+                                    </div>
+                                )}
+                                {rule.defaults.pattern !== undefined && (
+                                    <div style={styles.imageExportRow}>
+                                        <span style={{ ...styles.imageExportLabel, width: "90px" }}>{rule.settingLabel}</span>
+                                        <input
+                                            type="text"
+                                            value={settings.pattern ?? rule.defaults.pattern}
+                                            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                                            style={{ ...styles.searchInput, width: "auto", flex: 1 }}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <button onClick={() => onConfigChange(getDefaultLintConfig())} style={styles.dropdownActionButton}>
+                        Reset to defaults
+                    </button>
+                </div>
+            )}
+            
+            <button onClick={onClose} style={{ ...styles.refreshButton, alignSelf: "flex-end" }}>
+                Close
+            </button>
+        </div>
+    );
+};
+
+// Model Diff Panel Component
+interface ModelDiffPanelProps {
+    diff: ModelDiff;
+    savedAt: string;
+    onSelectEntity: (qualifiedName: string) => void;
+    onClose: () => void;
+}
+
+const ModelDiffPanel: React.FC<ModelDiffPanelProps> = ({ diff, savedAt, onSelectEntity, onClose }) => {
+    const [copyResult, setCopyResult] = useState<CopyResult>(null);
+    const changelog = useMemo(() => formatChangelog(diff, savedAt), [diff, savedAt]);
+    const count = (kind: ChangeKind) =>
+        diff.entities.filter(d => d.kind === kind).length + diff.associations.filter(d => d.kind === kind).length;
+    
+    const handleCopy = async () => {
+        setCopyResult(await copyToClipboard(changelog));
+    };
+    
+    return (
+        <div style={styles.pathPanel}>
+            <h3 style={styles.detailsTitle}>Model changes</h3>
+            <p style={styles.pathHint}>
+                Compared with the snapshot{savedAt ? ` of ${new Date(savedAt).toLocaleString()}` : ""}
+            </p>
+            {diff.skippedModules.length > 0 && (
+                <p style={styles.pathHint}>
+                    Not compared, since they are not loaded in both models: {diff.skippedModules.join(", ")}
+                </p>
+            )}
+            <div style={styles.diagramTabs}>
+                {(["added", "removed", "changed"] as ChangeKind[]).map(kind => (
+                    <span key={kind} style={{ color: DIFF_COLORS[kind], fontSize: "12px" }}>
+                        {DIFF_SYMBOLS[kind]} {count(kind)} {kind}
+                    </span>
+                ))}
+            </div>
+            
+            <div style={styles.lintList}>
+                {diff.entities.length === 0 && diff.associations.length === 0 && (
+                    <p style={styles.pathHint}>No changes.</p>
+                )}
+                {diff.entities.length > 0 && <h4 style={styles.detailsSubtitle}>Entities</h4>}
+                {diff.entities.map(d => (
+                    <div key={d.qualifiedName}>
+                        <button
+                            onClick={() => onSelectEntity(d.qualifiedName)}
+                            style={styles.lintFinding}
+                            disabled={d.kind === "removed"}
+                        >
+                            <span style={{ color: DIFF_COLORS[d.kind] }}>{DIFF_SYMBOLS[d.kind]}</span> {d.qualifiedName}
+                        </button>
+                        {d.changes.map((change, idx) => (
+                            <div key={idx} style={styles.diffChange}>{change}</div>
+                        ))}
+                    </div>
+                ))}
+                {diff.associations.length > 0 && <h4 style={styles.detailsSubtitle}>Associations</h4>}
+                {diff.associations.map(d => (
+                    <div key={d.qualifiedName}>
+                        <button
+                            onClick={() => onSelectEntity(d.parentEntity)}
+                            style={styles.lintFinding}
+                        >
+                            <span style={{ color: DIFF_COLORS[d.kind] }}>{DIFF_SYMBOLS[d.kind]}</span> {d.qualifiedName}
+                        </button>
+                        {d.changes.map((change, idx) => (
+                            <div key={idx} style={styles.diffChange}>{change}</div>
+                        ))}
+                    </div>
+                ))}
+            </div>
+            
+            <div style={styles.diagramTabs}>
+                <button onClick={handleCopy} style={styles.resetButton}>
+                    {copyResult === "copied" ? "Copied ✓" : copyResult === "failed" ? "Copy failed, use Save" : "Copy changelog"}
+                </button>
+                <button onClick={() => downloadFile("domain-model-changes.md", changelog, "text/markdown")} style={styles.resetButton}>
+                    Save
+                </button>
+                <button onClick={onClose} style={{ ...styles.refreshButton, marginLeft: "auto" }}>
+                    End comparison
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Module Dependency Graph Component
+const MODULE_NODE_WIDTH = 200;
+const MODULE_NODE_HEIGHT = 54;
+
+function getModuleNodeBox(moduleName: string, position: NodePosition): ModuleBox {
+    return {
+        moduleName,
+        x: position.x - MODULE_NODE_WIDTH / 2,
+        y: position.y - MODULE_NODE_HEIGHT / 2,
+        width: MODULE_NODE_WIDTH,
+        height: MODULE_NODE_HEIGHT
+    };
+}
+
+function getDependencyKey(dependency: ModuleDependency): string {
+    return `${dependency.from}->${dependency.to}`;
+}
+
+interface ModuleDependencyGraphProps {
+    modules: ModuleInfo[];
+    allModules: ModuleInfo[];
+    entityCounts: Map<string, number>;
+    dependencies: ModuleDependency[];
+    cycles: string[][];
+    selectedDependency: string | null;
+    onSelectDependency: (key: string | null) => void;
+    onOpenModule: (moduleName: string) => void;
+}
+
+const ModuleDependencyGraph: React.FC<ModuleDependencyGraphProps> = ({
+    modules, allModules, entityCounts, dependencies, cycles, selectedDependency, onSelectDependency, onOpenModule
+}) => {
+    const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const isPanning = useRef(false);
+    const panStart = useRef({ x: 0, y: 0 });
+    
+    const positions = useMemo(
+        () => calculateModuleLayout(modules.map(m => m.name), dependencies),
+        [modules, dependencies]
+    );
+    const cycleOf = useMemo(() => {
+        const map = new Map<string, number>();
+        cycles.forEach((cycle, index) => cycle.forEach(module => map.set(module, index)));
+        return map;
+    }, [cycles]);
+    const isCycleEdge = (dependency: ModuleDependency) =>
+        cycleOf.has(dependency.from) && cycleOf.get(dependency.from) === cycleOf.get(dependency.to);
+    const dependencyKeys = new Set(dependencies.map(getDependencyKey));
+    // Regular, cyclic and selected dependencies, indexed like the arrow markers
+    const edgeColors = [MENDIX_COLORS.textMuted, MENDIX_COLORS.error, MENDIX_COLORS.primary];
+    
+    return (
+        <svg
+            style={styles.canvas}
+            onMouseDown={(e) => {
+                if (e.button === 0 && e.target === e.currentTarget) {
+                    isPanning.current = true;
+                    panStart.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
+                }
+            }}
+            onMouseMove={(e) => {
+                if (isPanning.current) {
+                    setPan({ x: e.clientX - panStart.current.x, y: e.clientY - panStart.current.y });
+                }
+            }}
+            onMouseUp={() => { isPanning.current = false; }}
+            onMouseLeave={() => { isPanning.current = false; }}
+            onWheel={(e) => {
+                const delta = e.deltaY > 0 ? 0.9 : 1.1;
+                setZoom(prev => Math.max(0.2, Math.min(3, prev * delta)));
+            }}
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onSelectDependency(null);
+            }}
+        >
+            <defs>
+                {edgeColors.map((color, index) => (
+                    <marker
+                        key={color}
+                        id={`module-arrow-${index}`}
+                        viewBox="0 0 10 10"
+                        refX="9"
+                        refY="5"
+                        markerWidth="8"
+                        markerHeight="8"
+                        orient="auto"
+                    >
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                    </marker>
+                ))}
+            </defs>
+            <g transform={`translate(${pan.x}, ${pan.y}) scale(${zoom})`}>
+                {/* Dependencies */}
+                {dependencies.map(dependency => {
+                    const fromPos = positions.get(dependency.from);
+                    const toPos = positions.get(dependency.to);
+                    if (!fromPos || !toPos) return null;
+                    
+                    const key = getDependencyKey(dependency);
+                    const isSelected = key === selectedDependency;
+                    const inCycle = isCycleEdge(dependency);
+                    const markerIndex = isSelected ? 2 : inCycle ? 1 : 0;
+                    const color = edgeColors[markerIndex];
+                    
+                    // Shift opposite dependencies apart so both stay visible
+                    const dx = toPos.x - fromPos.x;
+                    const dy = toPos.y - fromPos.y;
+                    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+                    const offset = dependencyKeys.has(`${dependency.to}->${dependency.from}`) ? 8 : 0;
+                    const shift = { x: -dy / length * offset, y: dx / length * offset };
+                    const start = getBoxBorderPoint(getModuleNodeBox(dependency.from, fromPos), toPos);
+                    const end = getBoxBorderPoint(getModuleNodeBox(dependency.to, toPos), fromPos);
+                    const x1 = start.x + shift.x;
+                    const y1 = start.y + shift.y;
+                    const x2 = end.x + shift.x;
+                    const y2 = end.y + shift.y;
+                    const count = dependency.associations.length + dependency.generalizations.length;
+                    
+                    return (
+                        <g
+                            key={key}
+                            style={{ cursor: "pointer" }}
+                            onClick={(e) => { e.stopPropagation(); onSelectDependency(key); }}
+                        >
+                            {/* Wide transparent line as click target */}
+                            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={12} />
+                            <line
+                                x1={x1}
+                                y1={y1}
+                                x2={x2}
+                                y2={y2}
+                                stroke={color}
+                                strokeWidth={Math.min(1.5 + Math.log2(count), 6)}
+                                markerEnd={`url(#module-arrow-${markerIndex})`}
+                            />
+                            <text
+                                x={(x1 + x2) / 2 + shift.x * 1.5}
+                                y={(y1 + y2) / 2 + shift.y * 1.5 - 4}
+                                fill={color}
+                                fontSize={11}
+                                textAnchor="middle"
+                            >
+                                {dependency.associations.length > 0 && `${dependency.associations.length} assoc`}
+                                {dependency.associations.length > 0 && dependency.generalizations.length > 0 && " · "}
+                                {dependency.generalizations.length > 0 && `${dependency.generalizations.length} gen`}
+                            </text>
+                        </g>
+                    );
+                })}
+                
+                {/* Modules */}
+                {modules.map(module => {
+                    const pos = positions.get(module.name);
+                    if (!pos) return null;
+                    
+                    const moduleColor = getModuleColor(module.name, allModules);
+                    const inCycle = cycleOf.has(module.name);
+                    return (
+                        <g
+                            key={module.name}
+                            transform={`translate(${pos.x - MODULE_NODE_WIDTH / 2}, ${pos.y - MODULE_NODE_HEIGHT / 2})`}
+                            onDoubleClick={() => onOpenModule(module.name)}
+                        >
+                            <rect
+                                width={MODULE_NODE_WIDTH}
+                                height={MODULE_NODE_HEIGHT}
+                                rx={6}
+                                fill={MENDIX_COLORS.surface}
+                                stroke={inCycle ? MENDIX_COLORS.error : moduleColor}
+                                strokeWidth={inCycle ? 3 : 2}
+                            />
+                            <rect width={6} height={MODULE_NODE_HEIGHT} rx={3} fill={moduleColor} />
+                            <text x={MODULE_NODE_WIDTH / 2} y={22} textAnchor="middle" fill={MENDIX_COLORS.textBright} fontWeight="bold" fontSize={13}>
+                                {module.name.length > 24 ? module.name.substring(0, 22) + "…" : module.name}
+                            </text>
+                            <text x={MODULE_NODE_WIDTH / 2} y={40} textAnchor="middle" fill={MENDIX_COLORS.textMuted} fontSize={11}>
+                                {entityCounts.get(module.name) || 0} entities{module.isMarketplace ? " · Marketplace" : ""}
+                            </text>
+                        </g>
+                    );
+                })}
+            </g>
+        </svg>
+    );
+};
+
+// Saved Views Dropdown Component
+interface ViewsDropdownProps {
+    views: SavedView[];
+    activeView: string | null;
+    hiddenCount: number;
+    onApply: (view: SavedView) => void;
+    onSave: (name: string) => void;
+    onDelete: (name: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+    onShowHidden: () => void;
+}
+
+const ViewsDropdown: React.FC<ViewsDropdownProps> = ({
+    views, activeView, hiddenCount, onApply, onSave, onDelete, onExport, onImport, onShowHidden
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newViewName, setNewViewName] = useState("");
+    const containerRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, []);
+    
+    const handleSave = () => {
+        const name = newViewName.trim() || activeView;
+        if (name) {
+            onSave(name);
+            setNewViewName("");
+        }
+    };
+    
+    return (
+        <div ref={containerRef} style={styles.moduleDropdownContainer}>
+            <button onClick={() => setIsOpen(!isOpen)} style={styles.moduleDropdownButton}>
+                View: {activeView || "(unsaved)"} ▼
+            </button>
+            {isOpen && (
+                <div style={styles.moduleDropdownContent}>
+                    <div style={styles.dropdownActions}>
+                        <input
+                            type="text"
+                            placeholder={activeView || "View name"}
+                            value={newViewName}
+                            onChange={(e) => setNewViewName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                            style={{ ...styles.searchInput, width: "auto", flex: 2 }}
+                        />
+                        <button onClick={handleSave} style={styles.dropdownActionButton}>
+                            Save
+                        </button>
+                    </div>
+                    <div style={styles.moduleList}>
+                        {views.length === 0 && (
+                            <div style={{ ...styles.moduleCheckboxLabel, ...styles.marketplaceModule }}>
+                                No saved views
+                            </div>
+                        )}
+                        {views.map(view => (
+                            <div
+                                key={view.name}
+                                style={{
+                                    ...styles.moduleCheckboxLabel,
+                                    ...(view.name === activeView ? { color: MENDIX_COLORS.primary } : {})
+                                }}
+                                onClick={() => { onApply(view); setIsOpen(false); }}
+                            >
+                                {view.name}
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onDelete(view.name); }}
+                                    style={styles.viewDeleteButton}
+                                    title="Delete view"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div style={styles.dropdownDivider} />
+                    <div style={styles.dropdownActions}>
+                        <button onClick={onExport} style={styles.dropdownActionButton} disabled={views.length === 0}>
+                            Export…
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} style={styles.dropdownActionButton}>
+                            Import…
+                        </button>
+                        <button onClick={onShowHidden} style={styles.dropdownActionButton} disabled={hiddenCount === 0}>
+                            Unhide ({hiddenCount})
+                        </button>
+                    </div>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: "none" }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImport(file);
+                            e.target.value = "";
+                        }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Main Ontology Viewer Component
+interface OntologyViewerProps {
+    studioPro: ReturnType<typeof getStudioProApi>;
 }
 
 const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
@@ -537,27 +2035,334 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
     const [error, setError] = useState<string | null>(null);
     const [positions, setPositions] = useState<Map<string, NodePosition>>(new Map());
     const [selectedEntity, setSelectedEntity] = useState<string | null>(null);
+    // Multi-selection for group moves and alignment; contains the selected entity shown in the details panel
+    const [selectedEntities, setSelectedEntities] = useState<Set<string>>(new Set());
+    // Rubber band selection in progress, in model coordinates
+    const [rubberBand, setRubberBand] = useState<{ start: NodePosition; end: NodePosition } | null>(null);
+    // Entity node with the keyboard focus
+    const [keyboardEntity, setKeyboardEntity] = useState<string | null>(null);
     const [selectedModules, setSelectedModules] = useState<Set<string>>(new Set());
     const [showModuleDropdown, setShowModuleDropdown] = useState(false);
+    const [showExportDropdown, setShowExportDropdown] = useState(false);
+    const [showImageExport, setShowImageExport] = useState(false);
+    const [diagramFormat, setDiagramFormat] = useState<DiagramFormat | null>(null);
+    const [imageFormat, setImageFormat] = useState<"svg" | "png">("svg");
+    const [imageScale, setImageScale] = useState(2);
+    const [imageArea, setImageArea] = useState<ImageExportArea>("fit");
     const [searchTerm, setSearchTerm] = useState("");
+    // Search results either filter the canvas or are highlighted among the other entities
+    const [searchMode, setSearchMode] = useState<"filter" | "highlight">("filter");
+    const [showSearchResults, setShowSearchResults] = useState(false);
     const [zoom, setZoom] = useState(1);
     const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [showGeneralizations, setShowGeneralizations] = useState(true);
+    const [showEnumerations, setShowEnumerations] = useState(false);
+    const [selectedEnumeration, setSelectedEnumeration] = useState<string | null>(null);
+    const [enumerationPositions, setEnumerationPositions] = useState<Map<string, NodePosition>>(new Map());
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [includedEntities, setIncludedEntities] = useState<Set<string>>(new Set());
+    const [excludedEntities, setExcludedEntities] = useState<Set<string>>(new Set());
+    const [views, setViews] = useState<SavedView[]>([]);
+    const [activeView, setActiveView] = useState<string | null>(null);
+    const [layoutRunning, setLayoutRunning] = useState(false);
+    const [layoutAlgorithm, setLayoutAlgorithm] = useState<LayoutAlgorithm>("force");
+    // Focus mode: breadcrumb trail of entity IDs (the last one is the center) and hop count
+    const [focus, setFocus] = useState<{ trail: string[]; depth: number } | null>(null);
+    const [focusPositions, setFocusPositions] = useState<Map<string, NodePosition>>(new Map());
+    const [pathQuery, setPathQuery] = useState<PathQuery | null>(null);
+    const [showLint, setShowLint] = useState(false);
+    const [lintConfig, setLintConfig] = useState<LintConfig>(getDefaultLintConfig());
+    const [lintIncludeMarketplace, setLintIncludeMarketplace] = useState(false);
+    const [viewMode, setViewMode] = useState<"entities" | "modules">("entities");
+    const [selectedDependency, setSelectedDependency] = useState<string | null>(null);
+    // Live updates poll the model, the indicator shows the last change found
+    const [liveUpdates, setLiveUpdates] = useState(true);
+    const [refreshing, setRefreshing] = useState(false);
+    // Domain models loaded so far, while loading
+    const [loadProgress, setLoadProgress] = useState<{ done: number; total: number } | null>(null);
+    // Last change found by the live update, or the error of the last check when it failed
+    const [modelChange, setModelChange] = useState<{ at: Date; summary: string; failed?: boolean } | null>(null);
+    // Set while the model shown comes from the cache and has not been checked against Studio Pro yet
+    const [revalidating, setRevalidating] = useState(false);
+    // Size of the entity canvas, for viewport culling
+    const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+    // Set while exporting the whole canvas as an image, which needs every node at full detail
+    const [renderAll, setRenderAll] = useState(false);
+    // Snapshot the model is compared against
+    const [snapshot, setSnapshot] = useState<ModelSnapshot | null>(null);
+    const entityIndex = useMemo(() => createEntityIndex(data?.entities || []), [data]);
+    const entityGraph = useMemo(
+        () => buildEntityGraph(data || { entities: [], associations: [], enumerations: [], modules: [] }, entityIndex),
+        [data, entityIndex]
+    );
+    const entityLabels = useMemo(
+        () => new Map((data?.entities || []).map(entity => [entity.id, describeEntity(entity, entityGraph.get(entity.id) || [], entityIndex)])),
+        [data, entityGraph, entityIndex]
+    );
+    const focusNeighborhood = useMemo(
+        () => focus ? getNeighborhood(entityGraph, focus.trail[focus.trail.length - 1], focus.depth) : null,
+        [focus, entityGraph]
+    );
+    const pathSource = pathQuery ? entityIndex.get(pathQuery.source) : undefined;
+    const pathTarget = pathQuery ? entityIndex.get(pathQuery.target) : undefined;
+    const path = useMemo(
+        () => pathQuery && pathSource && pathTarget
+            ? findShortestPath(entityGraph, pathSource.id, pathTarget.id, pathQuery.respectNavigability)
+            : null,
+        [entityGraph, pathSource, pathTarget, pathQuery?.respectNavigability]
+    );
+    // Parsed search query, with the syntax error while the query is incomplete
+    const searchQuery = useMemo(() => {
+        try {
+            return { query: parseQuery(searchTerm), error: null };
+        } catch (err) {
+            return { query: null, error: err instanceof Error ? err.message : `${err}` };
+        }
+    }, [searchTerm]);
+    const searchResults = useMemo(() => {
+        if (!searchQuery.query || !data) return null;
+        const matches = createQueryMatcher(searchQuery.query, data, entityIndex);
+        return data.entities.filter(matches).sort((a, b) => a.qualifiedName.localeCompare(b.qualifiedName));
+    }, [searchQuery, data, entityIndex]);
+    const searchResultIds = useMemo(() => new Set((searchResults || []).map(entity => entity.id)), [searchResults]);
+    const lintFindings = useMemo(
+        () => showLint && data ? runLint(data, lintConfig, lintIncludeMarketplace) : [],
+        [showLint, data, lintConfig, lintIncludeMarketplace]
+    );
+    const failedModules = (data?.modules || []).filter(m => m.loadError);
+    // Module dependency view: the selected modules and the dependencies between them
+    const visibleModules = useMemo(
+        () => (data?.modules || []).filter(m => selectedModules.size === 0 || selectedModules.has(m.name)),
+        [data, selectedModules]
+    );
+    const moduleDependencies = useMemo(() => {
+        if (!data) return [];
+        const shown = new Set(visibleModules.map(m => m.name));
+        return getModuleDependencies(data, entityIndex).filter(dep => shown.has(dep.from) && shown.has(dep.to));
+    }, [data, entityIndex, visibleModules]);
+    const moduleCycles = useMemo(() => findModuleCycles(moduleDependencies), [moduleDependencies]);
+    const moduleEntityCounts = useMemo(() => {
+        const counts = new Map<string, number>();
+        data?.entities.forEach(entity => counts.set(entity.moduleName, (counts.get(entity.moduleName) || 0) + 1));
+        return counts;
+    }, [data]);
+    const modelDiff = useMemo(
+        () => snapshot && data ? diffModels(snapshot.data, data) : null,
+        [snapshot, data]
+    );
+    // Resolves the association ends of the snapshot, e.g. of removed associations
+    const snapshotIndex = useMemo(() => createEntityIndex(snapshot?.data.entities || []), [snapshot]);
+    const entityDiffs = useMemo(
+        () => new Map((modelDiff?.entities || []).map(d => [d.qualifiedName, d])),
+        [modelDiff]
+    );
+    const associationDiffs = useMemo(
+        () => new Map((modelDiff?.associations || []).map(d => [d.qualifiedName, d])),
+        [modelDiff]
+    );
+    const pathEntityIds = useMemo(
+        () => new Set(path && pathSource ? [pathSource.id, ...path.map(step => step.to)] : []),
+        [path, pathSource]
+    );
+    const pathAssociationIds = new Set(path ? path.map(step => step.association.id) : []);
     const svgRef = useRef<SVGSVGElement>(null);
+    const pendingCenter = useRef<NodePosition | null>(null);
     const isPanning = useRef(false);
     const panStart = useRef({ x: 0, y: 0 });
+    const panFrame = useRef<number | null>(null);
+    // Set when a rubber band selection ends, so the click that follows does not clear the selection
+    const suppressCanvasClick = useRef(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
+    const searchRef = useRef<HTMLDivElement>(null);
+    const snapshotInputRef = useRef<HTMLInputElement>(null);
+    const exportDropdownRef = useRef<HTMLDivElement>(null);
+    const imageExportRef = useRef<HTMLDivElement>(null);
     
-    // Close dropdown when clicking outside
+    // Close dropdowns when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
                 setShowModuleDropdown(false);
             }
+            if (exportDropdownRef.current && !exportDropdownRef.current.contains(event.target as Node)) {
+                setShowExportDropdown(false);
+            }
+            if (imageExportRef.current && !imageExportRef.current.contains(event.target as Node)) {
+                setShowImageExport(false);
+            }
+            if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
+                setShowSearchResults(false);
+            }
         };
         document.addEventListener("mousedown", handleClickOutside);
         return () => document.removeEventListener("mousedown", handleClickOutside);
     }, []);
     
+    // Track the canvas size; the canvas is remounted when switching between the entity and module view
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) return;
+        
+        const observer = new ResizeObserver(() => setCanvasSize({ width: svg.clientWidth, height: svg.clientHeight }));
+        observer.observe(svg);
+        return () => observer.disconnect();
+    }, [viewMode, loading]);
+    
+    // Run the layout in the background, streaming intermediate positions to the canvas.
+    // Starting a new layout cancels the one in progress.
+    const layoutCancelRef = useRef<(() => void) | null>(null);
+    // Latest collected model and its hash, read by the polling timer
+    const dataRef = useRef<OntologyData | null>(null);
+    const modelHashRef = useRef<string | null>(null);
+    dataRef.current = data;
+    // Duration of the last collection of the domain models, which sets the polling interval
+    const loadDurationRef = useRef(0);
+    // Check in progress, shared by the timer, Refresh and the cache revalidation
+    const modelCheckRef = useRef<Promise<void> | null>(null);
+    // Tail of the model checks and module loads, which run one after the other
+    const modelTaskRef = useRef<Promise<void>>(Promise.resolve());
+    // Read when a module load finishes, so nodes moved in the meantime keep their place
+    const positionsRef = useRef(positions);
+    const layoutAlgorithmRef = useRef(layoutAlgorithm);
+    positionsRef.current = positions;
+    layoutAlgorithmRef.current = layoutAlgorithm;
+    const runLayout = useCallback((
+        algorithm: LayoutAlgorithm,
+        entities: OntologyEntity[],
+        associations: OntologyAssociation[],
+        pinned?: Map<string, NodePosition>
+    ) => {
+        layoutCancelRef.current?.();
+        setEnumerationPositions(new Map());
+        
+        const { result, cancel } = calculateLayoutInWorker(algorithm, entities, associations, pinned, setPositions);
+        layoutCancelRef.current = cancel;
+        setLayoutRunning(true);
+        
+        result.then(finalPositions => {
+            setPositions(finalPositions);
+            setLayoutRunning(false);
+            layoutCancelRef.current = null;
+        });
+    }, []);
+    
+    // Stop a running layout when the viewer unmounts
+    useEffect(() => () => layoutCancelRef.current?.(), []);
+    
+    // Collect the model again and apply it when it changed: existing entities keep their position,
+    // new ones are placed next to their neighbours and the change is summarized in the stats bar.
+    // The enumerations are only loaded again when the domain models changed.
+    const collectModelChanges = useCallback(async () => {
+        // Load the same modules as before: the custom ones and those loaded on selection
+        const started = performance.now();
+        const models = await collectDomainModels(
+            studioPro,
+            module => isCustomModule(module) || !!dataRef.current?.modules.some(m => m.name === module.name && m.loaded)
+        );
+        loadDurationRef.current = performance.now() - started;
+        const hash = hashModel(models);
+        if (hash === modelHashRef.current) return;
+        
+        const newData = await addEnumerations(studioPro, models);
+        const previous = dataRef.current;
+        modelHashRef.current = hash;
+        dataRef.current = newData;
+        setData(newData);
+        // Keep the module selection, dropping modules that no longer exist
+        setSelectedModules(prev => new Set(Array.from(prev).filter(m => newData.modules.some(nm => nm.name === m))));
+        setPositions(prev => placeNewEntities(newData, prev));
+        setSelectedEntity(prev => prev && newData.entities.some(e => e.id === prev) ? prev : null);
+        setSelectedEntities(prev => new Set(Array.from(prev).filter(id => newData.entities.some(e => e.id === id))));
+        if (previous) {
+            setModelChange({ at: new Date(), summary: summarizeDiff(diffModels(previous, newData)) });
+        }
+    }, [studioPro]);
+    
+    // Run a task after the checks and loads queued before it, so each one starts from the model
+    // the previous one applied
+    const enqueueModelTask = useCallback((task: () => Promise<void>) => {
+        const result = modelTaskRef.current.then(task);
+        modelTaskRef.current = result.catch(() => undefined);
+        return result;
+    }, []);
+    
+    // One check at a time, so results are applied in the order they were collected
+    const checkForModelChanges = useCallback(() => {
+        if (!modelCheckRef.current) {
+            modelCheckRef.current = enqueueModelTask(collectModelChanges).finally(() => { modelCheckRef.current = null; });
+        }
+        return modelCheckRef.current;
+    }, [enqueueModelTask, collectModelChanges]);
+    
+    // There are no model change events in the Extensions API, so poll while the tab is visible.
+    // Paused during a layout run, which would overwrite the positions of new entities.
+    useEffect(() => {
+        if (!liveUpdates || loading || layoutRunning) return;
+        
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout>;
+        const schedule = () => {
+            timer = setTimeout(async () => {
+                if (!document.hidden && dataRef.current) {
+                    try {
+                        await checkForModelChanges();
+                    } catch (err) {
+                        setModelChange({ at: new Date(), summary: `${err}`, failed: true });
+                    }
+                }
+                if (!stopped) schedule();
+            }, Math.max(LIVE_UPDATE_MIN_INTERVAL, loadDurationRef.current * LIVE_UPDATE_LOAD_FACTOR));
+        };
+        schedule();
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }, [liveUpdates, loading, layoutRunning, checkForModelChanges]);
+    
+    // Revalidate a model rendered from the cache once its initial layout has finished
+    useEffect(() => {
+        if (!revalidating || loading || layoutRunning) return;
+        
+        checkForModelChanges()
+            .catch(err => setModelChange({ at: new Date(), summary: `${err}`, failed: true }))
+            .finally(() => setRevalidating(false));
+    }, [revalidating, loading, layoutRunning, checkForModelChanges]);
+    
+    // Load the domain models of Marketplace and system modules when they are first selected.
+    // The modules are added to the layout around the current arrangement.
+    useEffect(() => {
+        const getPending = (current: OntologyData) => new Set(
+            current.modules.filter(m => selectedModules.has(m.name) && !m.loaded && !m.loadError).map(m => m.name)
+        );
+        if (!data || getPending(data).size === 0) return;
+        
+        // Queued behind running checks, so the pending modules are read from the model as it is then
+        let cancelled = false;
+        enqueueModelTask(async () => {
+            const current = dataRef.current;
+            const pending = current ? getPending(current) : new Set<string>();
+            if (cancelled || !current || pending.size === 0) return;
+            
+            setLoadProgress({ done: 0, total: pending.size });
+            try {
+                const newData = await loadAdditionalModules(studioPro, current, pending, (done, total) => {
+                    if (!cancelled) setLoadProgress({ done, total });
+                });
+                if (cancelled) return;
+                modelHashRef.current = hashModel(newData);
+                dataRef.current = newData;
+                setData(newData);
+                runLayout(layoutAlgorithmRef.current, newData.entities, newData.associations, positionsRef.current);
+            } catch (err) {
+                if (!cancelled) setError(`Failed to load modules: ${err}`);
+            } finally {
+                setLoadProgress(null);
+            }
+        });
+        return () => { cancelled = true; };
+    }, [data, selectedModules, enqueueModelTask, runLayout]);
+    
     // Load data
     useEffect(() => {
         const loadData = async () => {
@@ -565,29 +2370,192 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                 setLoading(true);
                 setError(null);
                 
-                // Fetch data directly from the model API
-                const ontologyData = await collectOntologyData(studioPro);
+                const currentProjectId = await studioPro.app.model.projects.getProjectId();
+                const savedLayout = loadLayout(currentProjectId);
+                
+                // Render the cached model right away and revalidate it in the background. Without a cache,
+                // fetch data directly from the model API - Marketplace and system modules only when
+                // they were selected last time
+                const savedSelection = new Set(savedLayout?.selectedModules || []);
+                const cachedData = loadModelCache(currentProjectId);
+                const started = performance.now();
+                const ontologyData = cachedData || await collectOntologyData(
+                    studioPro,
+                    module => isCustomModule(module) || savedSelection.has(module.name),
+                    (done, total) => setLoadProgress({ done, total })
+                );
+                if (!cachedData) loadDurationRef.current = performance.now() - started;
                 setData(ontologyData);
+                modelHashRef.current = hashModel(ontologyData);
+                setRevalidating(!!cachedData);
+                setProjectId(currentProjectId);
                 
-                // Initialize selected modules - exclude marketplace and system modules by default
-                const defaultModules = ontologyData.modules
-                    .filter(m => !m.isMarketplace && !m.isSystem)
-                    .map(m => m.name);
+                // Initialize selected modules - restore the saved selection, otherwise
+                // exclude marketplace and system modules by default
+                const defaultModules = savedLayout
+                    ? savedLayout.selectedModules.filter(name => ontologyData.modules.some(m => m.name === name))
+                    : ontologyData.modules
+                        .filter(isCustomModule)
+                        .map(m => m.name);
                 setSelectedModules(new Set(defaultModules));
                 
-                // Calculate initial layout
-                const initialPositions = calculateLayout(ontologyData.entities, ontologyData.associations);
-                setPositions(initialPositions);
+                // Calculate initial layout - saved positions are kept, new entities are placed around them
+                const savedAlgorithm = savedLayout?.algorithm || "force";
+                setLayoutAlgorithm(savedAlgorithm);
+                runLayout(
+                    savedAlgorithm,
+                    ontologyData.entities,
+                    ontologyData.associations,
+                    savedLayout ? toPinnedPositions(savedLayout.positions, ontologyData.entities) : undefined
+                );
+                
+                if (savedLayout) {
+                    setZoom(savedLayout.zoom);
+                    setPan(savedLayout.pan);
+                    setIncludedEntities(new Set(savedLayout.includedEntities || []));
+                    setExcludedEntities(new Set(savedLayout.excludedEntities || []));
+                }
+                setViews(loadViews(currentProjectId));
+                setLintConfig(loadLintConfig(currentProjectId));
                 
+                setLoadProgress(null);
                 setLoading(false);
             } catch (err) {
                 setError(`Failed to load data: ${err}`);
+                setLoadProgress(null);
                 setLoading(false);
             }
         };
         
         loadData();
-    }, [studioPro]);
+    }, [studioPro, runLayout]);
+    
+    // Persist the layout whenever the arrangement, viewport or module selection changes
+    useEffect(() => {
+        if (!projectId || !data) return;
+        
+        const timeout = setTimeout(() => {
+            saveLayout(projectId, {
+                positions: toSavedPositions(positions, data.entities),
+                zoom,
+                pan,
+                selectedModules: Array.from(selectedModules),
+                includedEntities: Array.from(includedEntities),
+                excludedEntities: Array.from(excludedEntities),
+                algorithm: layoutAlgorithm
+            });
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [projectId, data, positions, zoom, pan, selectedModules, includedEntities, excludedEntities, layoutAlgorithm]);
+    
+    // Cache the collected domain models for the next time the viewer opens
+    useEffect(() => {
+        if (!projectId || !data) return;
+        
+        const timeout = setTimeout(() => saveModelCache(projectId, data), 1000);
+        return () => clearTimeout(timeout);
+    }, [projectId, data]);
+    
+    // Store the current selection, arrangement and viewport as a named view
+    const saveCurrentView = (name: string) => {
+        if (!projectId || !data) return;
+        
+        const view: SavedView = {
+            name,
+            positions: toSavedPositions(positions, data.entities),
+            zoom,
+            pan,
+            selectedModules: Array.from(selectedModules),
+            includedEntities: Array.from(includedEntities),
+            excludedEntities: Array.from(excludedEntities),
+            algorithm: layoutAlgorithm
+        };
+        const newViews = [...views.filter(v => v.name !== name), view];
+        setViews(newViews);
+        saveViews(projectId, newViews);
+        setActiveView(name);
+    };
+    
+    const applyView = (view: SavedView) => {
+        if (!data) return;
+        
+        setSelectedModules(new Set(view.selectedModules.filter(name => data.modules.some(m => m.name === name))));
+        setIncludedEntities(new Set(view.includedEntities || []));
+        setExcludedEntities(new Set(view.excludedEntities || []));
+        const algorithm = view.algorithm || "force";
+        setLayoutAlgorithm(algorithm);
+        runLayout(algorithm, data.entities, data.associations, toPinnedPositions(view.positions, data.entities));
+        setZoom(view.zoom);
+        setPan(view.pan);
+        setActiveView(view.name);
+        setFocus(null);
+    };
+    
+    const deleteView = (name: string) => {
+        if (!projectId) return;
+        
+        const newViews = views.filter(v => v.name !== name);
+        setViews(newViews);
+        saveViews(projectId, newViews);
+        if (activeView === name) {
+            setActiveView(null);
+        }
+    };
+    
+    const importViews = async (file: File) => {
+        if (!projectId) return;
+        
+        try {
+            const imported = parseViews(await file.text());
+            const importedNames = new Set(imported.map(v => v.name));
+            const newViews = [...views.filter(v => !importedNames.has(v.name)), ...imported];
+            setViews(newViews);
+            saveViews(projectId, newViews);
+        } catch (err) {
+            await studioPro.ui.messageBoxes.show("error", "Failed to import views", `${err}`);
+        }
+    };
+    
+    // Select a single entity, replacing the multi-selection
+    const selectEntity = (id: string | null) => {
+        setSelectedEntity(id);
+        setSelectedEntities(id ? new Set([id]) : new Set());
+    };
+    
+    const alignSelection = (command: AlignCommand) => {
+        const nodes = Array.from(selectedEntities).flatMap(id => {
+            const entity = entityIndex.get(id);
+            const pos = displayPositions.get(id);
+            return entity && pos ? [{ id, x: pos.x, y: pos.y, width: NODE_WIDTH, height: getNodeHeight(entity) }] : [];
+        });
+        const aligned = alignNodes(nodes, command);
+        const update = focus ? setFocusPositions : setPositions;
+        update(prev => new Map([...Array.from(prev), ...Array.from(aligned)]));
+    };
+    
+    const hideSelection = () => {
+        setEntitiesVisibility(Array.from(selectedEntities).flatMap(id => entityIndex.get(id)?.qualifiedName || []), false);
+        selectEntity(null);
+    };
+    
+    // Hide every other entity on the canvas
+    const showOnlySelection = () => {
+        setEntitiesVisibility(filteredEntities.filter(entity => !selectedEntities.has(entity.id)).map(entity => entity.qualifiedName), false);
+    };
+    
+    // Explicitly include or exclude entities, independent of the module filter
+    const setEntitiesVisibility = (qualifiedNames: string[], visible: boolean) => {
+        setIncludedEntities(prev => {
+            const newSet = new Set(prev);
+            qualifiedNames.forEach(name => { if (visible) newSet.add(name); else newSet.delete(name); });
+            return newSet;
+        });
+        setExcludedEntities(prev => {
+            const newSet = new Set(prev);
+            qualifiedNames.forEach(name => { if (visible) newSet.delete(name); else newSet.add(name); });
+            return newSet;
+        });
+    };
     
     // Toggle module selection
     const toggleModule = (moduleName: string) => {
@@ -618,32 +2586,133 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
     
     // Handle node drag
     const handleNodeDrag = useCallback((id: string, x: number, y: number) => {
-        setPositions(prev => {
+        // Focus mode has its own throwaway layout, the saved layout is left untouched
+        const update = focus ? setFocusPositions : setPositions;
+        update(prev => {
+            const newPositions = new Map(prev);
+            newPositions.set(id, { x, y });
+            // Dragging a selected entity moves the rest of the selection along
+            const current = prev.get(id);
+            if (current && selectedEntities.has(id)) {
+                selectedEntities.forEach(selectedId => {
+                    const pos = prev.get(selectedId);
+                    if (pos && selectedId !== id) {
+                        newPositions.set(selectedId, { x: pos.x + x - current.x, y: pos.y + y - current.y });
+                    }
+                });
+            }
+            return newPositions;
+        });
+    }, [focus, selectedEntities]);
+    
+    const handleEnumerationDrag = useCallback((id: string, x: number, y: number) => {
+        setEnumerationPositions(prev => {
             const newPositions = new Map(prev);
             newPositions.set(id, { x, y });
             return newPositions;
         });
     }, []);
     
+    // Show only the neighborhood of the last entity in the trail, laid out radially around
+    // its current position so the canvas does not jump while hopping between entities
+    const showFocus = (trail: string[], depth: number) => {
+        const center = trail[trail.length - 1];
+        const origin = (focus && focusPositions.get(center)) || positions.get(center) || { x: 0, y: 0 };
+        setFocusPositions(calculateFocusLayout(getNeighborhood(entityGraph, center, depth), origin));
+        setFocus({ trail, depth });
+        selectEntity(center);
+    };
+    
+    // Hop to an entity, cutting the trail back when it was visited before
+    const focusOn = (id: string) => {
+        const trail = focus ? focus.trail : [];
+        const visited = trail.indexOf(id);
+        showFocus(visited >= 0 ? trail.slice(0, visited + 1) : [...trail, id], focus ? focus.depth : 1);
+    };
+    
+    // Stable handlers for the memoized entity nodes. Shift-click adds an entity to the selection or
+    // removes it; a plain click on a selected entity keeps the selection, so it can be dragged as a group.
+    const handleEntityClick = useStableCallback((entity: OntologyEntity, additive: boolean) => {
+        setSelectedEnumeration(null);
+        if (additive) {
+            const selection = new Set(selectedEntities);
+            if (selection.has(entity.id)) selection.delete(entity.id); else selection.add(entity.id);
+            setSelectedEntities(selection);
+            setSelectedEntity(selection.has(entity.id) ? entity.id : selectedEntity === entity.id ? null : selectedEntity);
+        } else if (focus) {
+            focusOn(entity.id);
+        } else if (selectedEntities.has(entity.id)) {
+            setSelectedEntity(entity.id);
+        } else {
+            selectEntity(entity.id);
+        }
+    });
+    const handleEntityDoubleClick = useStableCallback((entity: OntologyEntity) => openDomainModel(entity.moduleName));
+    
+    // Leave focus mode when a refresh removed the center entity
+    useEffect(() => {
+        if (focus && !entityIndex.has(focus.trail[focus.trail.length - 1])) {
+            setFocus(null);
+        }
+    }, [focus, entityIndex]);
+    
     // Handle pan
+    // Canvas point under the mouse, in model coordinates
+    const toModelPoint = (e: React.MouseEvent): NodePosition => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - rect.left - pan.x) / zoom, y: (e.clientY - rect.top - pan.y) / zoom };
+    };
+    
+    // Dragging the background pans, shift-dragging selects the entities inside a rubber band
     const handleMouseDown = (e: React.MouseEvent) => {
         if (e.button === 0 && e.target === svgRef.current) {
+            if (e.shiftKey) {
+                const point = toModelPoint(e);
+                setRubberBand({ start: point, end: point });
+                return;
+            }
             isPanning.current = true;
             panStart.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
         }
     };
     
+    // Panning updates the canvas at most once per frame
     const handleMouseMove = (e: React.MouseEvent) => {
+        if (rubberBand) {
+            setRubberBand({ start: rubberBand.start, end: toModelPoint(e) });
+            return;
+        }
         if (isPanning.current) {
-            setPan({
+            const next = {
                 x: e.clientX - panStart.current.x,
                 y: e.clientY - panStart.current.y
+            };
+            if (panFrame.current !== null) cancelAnimationFrame(panFrame.current);
+            panFrame.current = requestAnimationFrame(() => {
+                panFrame.current = null;
+                setPan(next);
             });
         }
     };
     
     const handleMouseUp = () => {
         isPanning.current = false;
+        if (!rubberBand) return;
+        
+        // Add the entities overlapping the band to the selection
+        const band = getRubberBandRect(rubberBand);
+        const inside = filteredEntities.filter(entity => {
+            const pos = displayPositions.get(entity.id);
+            if (!pos) return false;
+            const height = getNodeHeight(entity);
+            return isInViewport(band, [
+                { x: pos.x - NODE_WIDTH / 2, y: pos.y - height / 2 },
+                { x: pos.x + NODE_WIDTH / 2, y: pos.y + height / 2 }
+            ], 0);
+        });
+        setSelectedEntities(prev => new Set([...Array.from(prev), ...inside.map(entity => entity.id)]));
+        setRubberBand(null);
+        suppressCanvasClick.current = true;
     };
     
     // Handle zoom
@@ -653,48 +2722,429 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
         setZoom(prev => Math.max(0.2, Math.min(3, prev * delta)));
     };
     
-    // Filter entities
-    const filteredEntities = data?.entities.filter(entity => {
-        const moduleMatch = selectedModules.size === 0 || selectedModules.has(entity.moduleName);
-        const searchMatch = searchTerm === "" || 
-            entity.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            entity.moduleName.toLowerCase().includes(searchTerm.toLowerCase());
+    const handleEntityFocusChange = useStableCallback((entity: OntologyEntity, focused: boolean) => {
+        setKeyboardEntity(prev => focused ? entity.id : prev === entity.id ? null : prev);
+    });
+    
+    // Move the keyboard focus along an association or generalization, panning the entity into view
+    const moveKeyboardFocus = (entity: OntologyEntity, direction: NodePosition) => {
+        const from = displayPositions.get(entity.id);
+        if (!from) return;
+        const neighbors = (entityGraph.get(entity.id) || []).flatMap(edge => {
+            const target = entityIndex.get(edge.target);
+            const position = displayPositions.get(edge.target);
+            return target && position && filteredEntityQualifiedNames.has(target.qualifiedName) ? [{ id: target.id, position }] : [];
+        });
+        const next = findNeighborInDirection(from, neighbors, direction);
+        if (next) focusEntity(next);
+    };
+    
+    const focusEntity = (id: string) => {
+        setKeyboardEntity(id);
+        const pos = displayPositions.get(id);
+        if (pos && visibleArea && !isInViewport(visibleArea, [pos], 0)) centerOn(pos);
+    };
+    
+    // Keyboard control of the canvas. Arrow keys move between related entities while an entity has the
+    // focus and pan otherwise, or always with Shift.
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.ctrlKey || e.metaKey || e.altKey) return;
+        const entity = filteredEntities.find(candidate => candidate.id === keyboardEntity);
+        const direction = ARROW_DIRECTIONS[e.key];
+        
+        if (direction && entity && !e.shiftKey) {
+            moveKeyboardFocus(entity, direction);
+        } else if (direction) {
+            setPan(prev => ({ x: prev.x - direction.x * PAN_STEP, y: prev.y - direction.y * PAN_STEP }));
+        } else if (e.key === "Tab") {
+            // Through all shown entities in order, also those culled outside the view. Past the first or
+            // last entity the focus leaves the canvas as usual.
+            const index = entity ? filteredEntities.indexOf(entity) : -1;
+            const next = filteredEntities[e.shiftKey ? index - 1 : index + 1];
+            if (!next) return;
+            focusEntity(next.id);
+        } else if ((e.key === "Enter" || e.key === " ") && entity) {
+            handleEntityClick(entity, e.shiftKey);
+        } else if (e.key === "+" || e.key === "=") {
+            setZoom(prev => Math.min(3, prev * 1.2));
+        } else if (e.key === "-") {
+            setZoom(prev => Math.max(0.2, prev * 0.8));
+        } else if (e.key === "0") {
+            setZoom(1);
+            setPan({ x: 0, y: 0 });
+        } else if (e.key === "Escape") {
+            selectEntity(null);
+            setSelectedEnumeration(null);
+            setRubberBand(null);
+        } else {
+            return;
+        }
+        e.preventDefault();
+    };
+    
+    // Filter entities - focus mode shows the neighborhood regardless of module filter and search.
+    // Memoized, so what is derived from the shown entities is not recomputed while panning.
+    const filteredEntities = useMemo(() => data?.entities.filter(entity => {
+        if (focusNeighborhood) return focusNeighborhood.has(entity.id);
+        // Entities on the found path are shown even when filtered out
+        if (pathEntityIds.has(entity.id)) return true;
+        
+        const moduleMatch = !excludedEntities.has(entity.qualifiedName) && (
+            selectedModules.size === 0 || 
+            selectedModules.has(entity.moduleName) ||
+            includedEntities.has(entity.qualifiedName)
+        );
+        const searchMatch = !searchResults || searchMode === "highlight" || searchResultIds.has(entity.id);
         return moduleMatch && searchMatch;
-    }) || [];
+    }) || [], [data, focusNeighborhood, pathEntityIds, excludedEntities, selectedModules, includedEntities, searchResults, searchMode, searchResultIds]);
     
-    const filteredEntityIds = new Set(filteredEntities.map(e => e.id));
-    const filteredEntityQualifiedNames = new Set(filteredEntities.map(e => e.qualifiedName));
+    const filteredEntityIds = useMemo(() => new Set(filteredEntities.map(e => e.id)), [filteredEntities]);
+    const filteredEntityQualifiedNames = useMemo(() => new Set(filteredEntities.map(e => e.qualifiedName)), [filteredEntities]);
     
     // Filter associations
-    const filteredAssociations = data?.associations.filter(assoc => {
+    const filteredAssociations = useMemo(() => data?.associations.filter(assoc => {
         const parentMatch = filteredEntityIds.has(assoc.parentEntity) || filteredEntityQualifiedNames.has(assoc.parentEntity);
         const childMatch = filteredEntityIds.has(assoc.childEntity) || filteredEntityQualifiedNames.has(assoc.childEntity);
         return parentMatch && childMatch;
-    }) || [];
+    }) || [], [data, filteredEntityIds, filteredEntityQualifiedNames]);
+    
+    const selectedQualifiedName = selectedEntity ? 
+        entityIndex.get(selectedEntity)?.qualifiedName : undefined;
     
     // Get highlighted associations
     const highlightedAssociations = selectedEntity ? 
         filteredAssociations.filter(a => 
             a.parentEntity === selectedEntity || 
             a.childEntity === selectedEntity ||
-            filteredEntities.find(e => e.id === selectedEntity)?.qualifiedName === a.parentEntity ||
-            filteredEntities.find(e => e.id === selectedEntity)?.qualifiedName === a.childEntity
+            a.parentEntity === selectedQualifiedName ||
+            a.childEntity === selectedQualifiedName
         ) : [];
     
     const highlightedAssociationIds = new Set(highlightedAssociations.map(a => a.id));
     
+    // Generalization edges between visible entities
+    const filteredGeneralizations = showGeneralizations ? 
+        filteredEntities.filter(entity => 
+            entity.generalization !== null && filteredEntityQualifiedNames.has(entity.generalization)
+        ) : [];
+    
+    const displayPositions = focus ? focusPositions : positions;
     // Find entity position by ID or qualified name
     const getEntityPosition = (idOrQualifiedName: string): NodePosition | undefined => {
-        // First try direct ID match
-        if (positions.has(idOrQualifiedName)) {
-            return positions.get(idOrQualifiedName);
+        const entity = entityIndex.get(idOrQualifiedName);
+        return entity ? displayPositions.get(entity.id) : undefined;
+    };
+    
+    // Enumerations used by the visible entities: enumeration -> entity ID -> attribute names
+    const { enumerationUsages, visibleEnumerations } = useMemo(() => {
+        const usages = new Map<string, Map<string, string[]>>();
+        filteredEntities.forEach(entity => entity.attributes.forEach(attr => {
+            if (!attr.enumeration) return;
+            const users = usages.get(attr.enumeration) || new Map<string, string[]>();
+            users.set(entity.id, [...(users.get(entity.id) || []), attr.name]);
+            usages.set(attr.enumeration, users);
+        }));
+        return {
+            enumerationUsages: usages,
+            visibleEnumerations: data?.enumerations.filter(e => usages.has(e.qualifiedName)) || []
+        };
+    }, [data, filteredEntities]);
+    
+    // Enumeration nodes are not part of the layout; they are placed next to their entities unless dragged
+    const enumerationNodePositions = useMemo(() => {
+        const nodePositions = new Map<string, NodePosition>();
+        if (!showEnumerations) return nodePositions;
+        const obstacles = filteredEntities.flatMap(entity => {
+            const pos = displayPositions.get(entity.id);
+            return pos ? [{ x: pos.x, y: pos.y, width: NODE_WIDTH, height: getNodeHeight(entity) }] : [];
+        });
+        visibleEnumerations.forEach(enumeration => {
+            const dragged = enumerationPositions.get(enumeration.qualifiedName);
+            if (!dragged) return;
+            nodePositions.set(enumeration.qualifiedName, dragged);
+            obstacles.push({ ...dragged, width: ENUMERATION_NODE_WIDTH, height: getEnumerationNodeHeight(enumeration) });
+        });
+        const placed = placeSatelliteNodes(
+            visibleEnumerations.filter(e => !enumerationPositions.has(e.qualifiedName)).map(enumeration => ({
+                id: enumeration.qualifiedName,
+                anchors: Array.from(enumerationUsages.get(enumeration.qualifiedName)!.keys())
+                    .map(id => displayPositions.get(id))
+                    .filter((pos): pos is NodePosition => pos !== undefined),
+                width: ENUMERATION_NODE_WIDTH,
+                height: getEnumerationNodeHeight(enumeration)
+            })),
+            obstacles
+        );
+        placed.forEach((pos, id) => nodePositions.set(id, pos));
+        return nodePositions;
+    }, [showEnumerations, filteredEntities, displayPositions, visibleEnumerations, enumerationUsages, enumerationPositions]);
+    
+    // Entities removed since the compared snapshot are drawn as ghosts next to the entities they were
+    // associated with, or else next to their module
+    const removedEntities = useMemo(() => (modelDiff?.entities || [])
+        .filter(d => d.kind === "removed" && !focus && (selectedModules.size === 0 || selectedModules.has(d.entity.moduleName)))
+        .map(d => d.entity), [modelDiff, focus, selectedModules]);
+    // Placing the ghosts is costly, so it is only redone when the diff, the positions or the shown entities change
+    const removedEntityPositions = useMemo(() => {
+        if (removedEntities.length === 0 || !snapshot) return new Map<string, NodePosition>();
+        const obstacles = [
+            ...filteredEntities.flatMap(entity => {
+                const pos = displayPositions.get(entity.id);
+                return pos ? [{ x: pos.x, y: pos.y, width: NODE_WIDTH, height: getNodeHeight(entity) }] : [];
+            }),
+            ...Array.from(enumerationNodePositions.values()).map(pos => ({ ...pos, width: ENUMERATION_NODE_WIDTH, height: 60 }))
+        ];
+        const getAnchors = (removed: OntologyEntity): NodePosition[] => {
+            const related = snapshot.data.associations.flatMap(assoc => {
+                const parent = snapshotIndex.get(assoc.parentEntity)?.qualifiedName;
+                const child = snapshotIndex.get(assoc.childEntity)?.qualifiedName;
+                return parent === removed.qualifiedName && child ? [child]
+                    : child === removed.qualifiedName && parent ? [parent]
+                    : [];
+            });
+            if (removed.generalization) related.push(removed.generalization);
+            const anchors = related
+                .map(qualifiedName => getEntityPosition(qualifiedName))
+                .filter((pos): pos is NodePosition => pos !== undefined);
+            if (anchors.length > 0) return anchors;
+            return filteredEntities
+                .filter(entity => entity.moduleName === removed.moduleName)
+                .map(entity => displayPositions.get(entity.id))
+                .filter((pos): pos is NodePosition => pos !== undefined);
+        };
+        return placeSatelliteNodes(
+            removedEntities.map(entity => ({
+                id: entity.qualifiedName,
+                anchors: getAnchors(entity),
+                width: NODE_WIDTH,
+                height: getNodeHeight(entity)
+            })),
+            obstacles
+        );
+    }, [removedEntities, snapshot, snapshotIndex, filteredEntities, displayPositions, enumerationNodePositions]);
+    const removedAssociations = (modelDiff?.associations || []).filter(d => d.kind === "removed").map(d => d.association);
+    
+    // Module clusters are drawn as boxes, with cross-module edges routed between the boxes
+    const moduleBoxes = layoutAlgorithm === "modules" && !focus ? getModuleBoxes(filteredEntities, displayPositions) : null;
+    
+    const getClusterRoute = (assoc: OntologyAssociation): NodePosition[] | undefined => {
+        if (!moduleBoxes) return undefined;
+        const parent = entityIndex.get(assoc.parentEntity);
+        const child = entityIndex.get(assoc.childEntity);
+        if (!parent || !child || parent.moduleName === child.moduleName) return undefined;
+        
+        const parentBox = moduleBoxes.get(parent.moduleName);
+        const childBox = moduleBoxes.get(child.moduleName);
+        if (!parentBox || !childBox) return undefined;
+        
+        const parentCenter = { x: parentBox.x + parentBox.width / 2, y: parentBox.y + parentBox.height / 2 };
+        const childCenter = { x: childBox.x + childBox.width / 2, y: childBox.y + childBox.height / 2 };
+        return [getBoxBorderPoint(parentBox, childCenter), getBoxBorderPoint(childBox, parentCenter)];
+    };
+    
+    // Part of the canvas in view, in model coordinates
+    const visibleArea: CanvasRect | null = canvasSize ? {
+        x: -pan.x / zoom,
+        y: -pan.y / zoom,
+        width: canvasSize.width / zoom,
+        height: canvasSize.height / zoom
+    } : null;
+    
+    // Viewport culling: only what overlaps the visible part of the canvas is rendered
+    const viewport: CanvasRect | null = renderAll || !visibleArea ? null : {
+        x: visibleArea.x - CULLING_MARGIN / zoom,
+        y: visibleArea.y - CULLING_MARGIN / zoom,
+        width: visibleArea.width + CULLING_MARGIN * 2 / zoom,
+        height: visibleArea.height + CULLING_MARGIN * 2 / zoom
+    };
+    const isNodeInView = (pos: NodePosition, width: number, height: number) =>
+        !viewport || isInViewport(viewport, [pos], Math.max(width, height) / 2);
+    // Curved edges bulge out by a tenth of their length
+    const isEdgeInView = (from: NodePosition | undefined, to: NodePosition | undefined, route?: NodePosition[]) =>
+        !!from && !!to && (!viewport || isInViewport(viewport, [from, ...(route || []), to], 20 + Math.hypot(to.x - from.x, to.y - from.y) * 0.1));
+    // The entity with the keyboard focus stays rendered, so it keeps the focus when panned out of view
+    const renderedEntities = filteredEntities.filter(entity => {
+        const pos = displayPositions.get(entity.id);
+        return !!pos && (entity.id === keyboardEntity || isNodeInView(pos, NODE_WIDTH, getNodeHeight(entity)));
+    });
+    // Level of detail: header only when zoomed out or when many entities are in view
+    const showDetails = renderAll || (zoom >= DETAIL_MIN_ZOOM && renderedEntities.length <= DETAIL_MAX_ENTITIES);
+    
+    // The ontology as currently shown - module filter and search applied
+    const visibleOntology = useMemo((): OntologyData => ({
+        entities: filteredEntities,
+        associations: filteredAssociations,
+        enumerations: visibleEnumerations,
+        modules: data?.modules.filter(m => selectedModules.size === 0 || selectedModules.has(m.name)) || []
+    }), [filteredEntities, filteredAssociations, visibleEnumerations, data, selectedModules]);
+    // Class diagram text, generated again only when the format or the shown ontology changes
+    const diagramText = useMemo(
+        () => diagramFormat === "plantuml" ? toPlantUml(visibleOntology) : diagramFormat === "mermaid" ? toMermaid(visibleOntology) : "",
+        [diagramFormat, visibleOntology]
+    );
+    
+    // Export the visible ontology as OWL
+    const exportOwl = (format: "turtle" | "jsonld") => {
+        if (format === "turtle") {
+            downloadFile("domain-model-ontology.ttl", toTurtle(visibleOntology), "text/turtle");
+        } else {
+            downloadFile("domain-model-ontology.jsonld", toJsonLd(visibleOntology), "application/ld+json");
+        }
+        setShowExportDropdown(false);
+    };
+    
+    const saveSnapshot = () => {
+        if (!data) return;
+        downloadFile("domain-model-snapshot.json", serializeSnapshot(data), "application/json");
+        setShowExportDropdown(false);
+    };
+    
+    const compareWithSnapshot = async (file: File) => {
+        try {
+            setSnapshot(parseSnapshot(await file.text()));
+            setPathQuery(null);
+            setShowLint(false);
+        } catch (err) {
+            await studioPro.ui.messageBoxes.show("error", "Failed to read snapshot", `${err}`);
+        }
+    };
+    
+    // Ask the main entry point to open a document in Studio Pro. The editors API opens documents
+    // only, so an entity is shown by opening the domain model of its module.
+    const openDocument = async (documentId: string | null | undefined, description: string) => {
+        if (!documentId) {
+            await studioPro.ui.messageBoxes.show("error", `Cannot open ${description}`, "The document was not found in the model.");
+            return;
+        }
+        try {
+            await studioPro.ui.messagePassing.sendMessage<ViewerMessage, ViewerMessageResponse>(
+                { type: "openDocument", documentId },
+                async (response) => {
+                    if (!response.success) {
+                        await studioPro.ui.messageBoxes.show("error", `Failed to open ${description}`, response.error || "");
+                    }
+                }
+            );
+        } catch (err) {
+            await studioPro.ui.messageBoxes.show("error", `Failed to open ${description}`, `${err}`);
+        }
+    };
+    
+    const openDomainModel = (moduleName: string) => {
+        const module = data?.modules.find(m => m.name === moduleName);
+        openDocument(module?.domainModelId, `the domain model of ${moduleName}`);
+    };
+    
+    // Open the class diagram text panel
+    const showDiagramText = (format: DiagramFormat) => {
+        setDiagramFormat(format);
+        setShowExportDropdown(false);
+    };
+    
+    // Export the canvas as it is currently rendered
+    const exportImage = async () => {
+        if (!svgRef.current) return;
+        
+        // The fitted image shows the whole canvas, so culling and the level of detail are switched off
+        // while serializing it
+        if (imageArea === "fit") {
+            flushSync(() => setRenderAll(true));
+        }
+        let serialized: ReturnType<typeof serializeCanvas>;
+        try {
+            serialized = serializeCanvas(svgRef.current, {
+                area: imageArea,
+                background: MENDIX_COLORS.canvas
+            });
+        } finally {
+            setRenderAll(false);
+        }
+        const { markup, width, height } = serialized;
+        
+        try {
+            if (imageFormat === "svg") {
+                downloadFile("domain-model-ontology.svg", markup, "image/svg+xml");
+            } else {
+                const png = await rasterizeSvg(markup, width, height, imageScale);
+                downloadFile("domain-model-ontology.png", png);
+            }
+            setShowImageExport(false);
+        } catch (err) {
+            await studioPro.ui.messageBoxes.show("error", "Failed to export image", `${err}`);
+        }
+    };
+    
+    // Pan so that the position is in the middle of the canvas. While the module view is shown
+    // the entity canvas is not mounted, so centering waits until it is.
+    const centerOn = (pos: NodePosition | undefined) => {
+        const svg = svgRef.current;
+        if (!pos) return;
+        if (!svg) {
+            pendingCenter.current = pos;
+            return;
+        }
+        
+        const rect = svg.getBoundingClientRect();
+        setPan({ x: rect.width / 2 - pos.x * zoom, y: rect.height / 2 - pos.y * zoom });
+    };
+    
+    // Zoom and pan so that the entities fill the canvas
+    const zoomToEntities = (entities: OntologyEntity[]) => {
+        const bounds = getEntityBounds(entities, displayPositions);
+        if (!bounds || !canvasSize) return;
+        
+        const newZoom = Math.max(0.2, Math.min(
+            FIT_MAX_ZOOM,
+            (canvasSize.width - FIT_PADDING * 2) / bounds.width,
+            (canvasSize.height - FIT_PADDING * 2) / bounds.height
+        ));
+        setZoom(newZoom);
+        setPan({
+            x: canvasSize.width / 2 - (bounds.x + bounds.width / 2) * newZoom,
+            y: canvasSize.height / 2 - (bounds.y + bounds.height / 2) * newZoom
+        });
+    };
+    
+    const zoomToSelection = () => {
+        zoomToEntities(Array.from(selectedEntities).flatMap(id => {
+            const entity = entityIndex.get(id);
+            return entity ? [entity] : [];
+        }));
+    };
+    
+    // Focus the node the keyboard moved to, once it is rendered
+    useEffect(() => {
+        if (!keyboardEntity || !svgRef.current) return;
+        const node = svgRef.current.querySelector<SVGGElement>(`[data-entity-id="${CSS.escape(keyboardEntity)}"]`);
+        if (node && document.activeElement !== node) node.focus();
+    }, [keyboardEntity]);
+    
+    useEffect(() => {
+        if (viewMode !== "entities" || !pendingCenter.current) return;
+        const pos = pendingCenter.current;
+        pendingCenter.current = null;
+        centerOn(pos);
+    }, [viewMode]);
+    
+    // Select an entity in the entity graph, bringing it onto the canvas when it is filtered out
+    const revealEntity = (idOrQualifiedName: string) => {
+        const entity = entityIndex.get(idOrQualifiedName);
+        if (!entity) return;
+        
+        setViewMode("entities");
+        const staysInFocus = !!focusNeighborhood && focusNeighborhood.has(entity.id);
+        if (focusNeighborhood && !staysInFocus) {
+            setFocus(null);
         }
-        // Then try qualified name match
-        const entity = data?.entities.find(e => e.qualifiedName === idOrQualifiedName);
-        if (entity) {
-            return positions.get(entity.id);
+        if (!staysInFocus && !filteredEntityIds.has(entity.id)) {
+            setEntitiesVisibility([entity.qualifiedName], true);
+            if (searchResults && !searchResultIds.has(entity.id)) {
+                setSearchTerm("");
+            }
         }
-        return undefined;
+        setSelectedEnumeration(null);
+        selectEntity(entity.id);
+        centerOn((staysInFocus ? focusPositions : positions).get(entity.id));
     };
     
     if (loading) {
@@ -702,6 +3152,14 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
             <div style={styles.loadingContainer}>
                 <div style={styles.spinner}></div>
                 <p>Loading domain model ontology...</p>
+                {loadProgress && loadProgress.total > 0 && (
+                    <div style={styles.loadProgress}>
+                        <div style={styles.loadProgressTrack}>
+                            <div style={{ ...styles.loadProgressBar, width: `${(loadProgress.done / loadProgress.total) * 100}%` }} />
+                        </div>
+                        <span>{loadProgress.done}/{loadProgress.total} modules</span>
+                    </div>
+                )}
             </div>
         );
     }
@@ -721,13 +3179,105 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
             <div style={styles.toolbar}>
                 <h2 style={styles.title}>Domain Model Ontology</h2>
                 <div style={styles.controls}>
-                    <input
-                        type="text"
-                        placeholder="Search entities..."
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        style={styles.searchInput}
-                    />
+                    <div style={styles.diagramTabs}>
+                        <button
+                            onClick={() => setViewMode("entities")}
+                            style={{ ...styles.resetButton, ...(viewMode === "entities" ? styles.activeTab : {}) }}
+                        >
+                            Entities
+                        </button>
+                        <button
+                            onClick={() => setViewMode("modules")}
+                            style={{ ...styles.resetButton, ...(viewMode === "modules" ? styles.activeTab : {}) }}
+                            title="Show the dependencies between the selected modules"
+                        >
+                            Modules
+                        </button>
+                    </div>
+                    {/* Search with query syntax and a results list */}
+                    <div ref={searchRef} style={styles.moduleDropdownContainer}>
+                        <input
+                            type="text"
+                            placeholder="Search, e.g. attr:Email..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            onFocus={() => setShowSearchResults(true)}
+                            style={{
+                                ...styles.searchInput,
+                                ...(searchQuery.error ? { borderColor: MENDIX_COLORS.error } : {})
+                            }}
+                            title={searchQuery.error || undefined}
+                        />
+                        {showSearchResults && (
+                            <div style={{ ...styles.moduleDropdownContent, minWidth: "340px" }}>
+                                <div style={styles.dropdownActions}>
+                                    <button
+                                        onClick={() => setSearchMode("filter")}
+                                        style={{ ...styles.dropdownActionButton, ...(searchMode === "filter" ? styles.activeTab : {}) }}
+                                        title="Show only the matching entities"
+                                    >
+                                        Filter
+                                    </button>
+                                    <button
+                                        onClick={() => setSearchMode("highlight")}
+                                        style={{ ...styles.dropdownActionButton, ...(searchMode === "highlight" ? styles.activeTab : {}) }}
+                                        title="Show all entities and highlight the matching ones"
+                                    >
+                                        Highlight
+                                    </button>
+                                </div>
+                                <div style={styles.dropdownDivider} />
+                                <div style={{ ...styles.moduleList, padding: "6px 8px" }}>
+                                    {searchQuery.error ? (
+                                        <p style={{ ...styles.pathHint, color: MENDIX_COLORS.error }}>{searchQuery.error}</p>
+                                    ) : searchResults ? (
+                                        <div style={styles.lintList}>
+                                            <p style={styles.pathHint}>
+                                                {searchResults.length === 0 ? "No matching entities" : `${searchResults.length} matching entities`}
+                                            </p>
+                                            {searchResults.map(entity => {
+                                                const shown = filteredEntityIds.has(entity.id);
+                                                return (
+                                                    <button
+                                                        key={entity.id}
+                                                        onClick={() => revealEntity(entity.id)}
+                                                        style={{
+                                                            ...styles.lintFinding,
+                                                            ...(shown ? {} : { color: MENDIX_COLORS.textMuted })
+                                                        }}
+                                                        title={shown ? "Select and center the entity" : "Not shown - click to bring it into view"}
+                                                    >
+                                                        <span
+                                                            style={{
+                                                                ...styles.moduleColorDot,
+                                                                display: "inline-block",
+                                                                marginRight: "6px",
+                                                                width: "8px",
+                                                                height: "8px",
+                                                                backgroundColor: getModuleColor(entity.moduleName, data?.modules || [])
+                                                            }}
+                                                        />
+                                                        {entity.qualifiedName}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    ) : (
+                                        <table style={{ fontSize: "11px", borderSpacing: "6px 2px" }}>
+                                            <tbody>
+                                                {QUERY_HELP.map(help => (
+                                                    <tr key={help.syntax}>
+                                                        <td><code>{help.syntax}</code></td>
+                                                        <td style={{ color: MENDIX_COLORS.textMuted }}>{help.description}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
                     {/* Multi-select module dropdown */}
                     <div ref={dropdownRef} style={styles.moduleDropdownContainer}>
                         <button
@@ -787,12 +3337,179 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                                             {module.isMarketplace && !module.isSystem && (
                                                 <span style={styles.marketplaceBadge}>MP</span>
                                             )}
+                                            {module.loadError && (
+                                                <span style={{ color: MENDIX_COLORS.error }} title={module.loadError}>⚠</span>
+                                            )}
                                         </label>
                                     ))}
                                 </div>
                             </div>
                         )}
                     </div>
+                    <ViewsDropdown
+                        views={views}
+                        activeView={activeView}
+                        hiddenCount={excludedEntities.size}
+                        onApply={applyView}
+                        onSave={saveCurrentView}
+                        onDelete={deleteView}
+                        onExport={() => downloadFile("ontology-views.json", serializeViews(views), "application/json")}
+                        onImport={importViews}
+                        onShowHidden={() => setExcludedEntities(new Set())}
+                    />
+                    <button
+                        onClick={() => {
+                            setShowLint(false);
+                            setSnapshot(null);
+                            setPathQuery(pathQuery ? null : { source: "", target: "", respectNavigability: false });
+                        }}
+                        style={styles.resetButton}
+                    >
+                        Find path
+                    </button>
+                    <button
+                        onClick={() => {
+                            setPathQuery(null);
+                            setSnapshot(null);
+                            setShowLint(!showLint);
+                        }}
+                        style={styles.resetButton}
+                    >
+                        Lint
+                    </button>
+                    <button
+                        onClick={() => snapshotInputRef.current?.click()}
+                        style={styles.resetButton}
+                        title="Compare the model with a snapshot saved earlier"
+                    >
+                        Compare…
+                    </button>
+                    <input
+                        ref={snapshotInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        style={{ display: "none" }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) compareWithSnapshot(file);
+                            e.target.value = "";
+                        }}
+                    />
+                    <div ref={exportDropdownRef} style={styles.moduleDropdownContainer}>
+                        <button
+                            onClick={() => setShowExportDropdown(!showExportDropdown)}
+                            style={styles.resetButton}
+                        >
+                            Export ▼
+                        </button>
+                        {showExportDropdown && (
+                            <div style={styles.exportDropdownContent}>
+                                <button onClick={() => exportOwl("turtle")} style={styles.exportMenuItem}>
+                                    OWL (Turtle)
+                                </button>
+                                <button onClick={() => exportOwl("jsonld")} style={styles.exportMenuItem}>
+                                    OWL (JSON-LD)
+                                </button>
+                                <div style={styles.dropdownDivider} />
+                                <button onClick={() => showDiagramText("plantuml")} style={styles.exportMenuItem}>
+                                    PlantUML class diagram
+                                </button>
+                                <button onClick={() => showDiagramText("mermaid")} style={styles.exportMenuItem}>
+                                    Mermaid class diagram
+                                </button>
+                                <div style={styles.dropdownDivider} />
+                                <button onClick={saveSnapshot} style={styles.exportMenuItem}>
+                                    Model snapshot (JSON)
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                    <div ref={imageExportRef} style={styles.moduleDropdownContainer}>
+                        <button
+                            onClick={() => setShowImageExport(!showImageExport)}
+                            style={styles.resetButton}
+                        >
+                            Export image ▼
+                        </button>
+                        {showImageExport && (
+                            <div style={styles.imageExportContent}>
+                                <div style={styles.imageExportRow}>
+                                    <span style={styles.imageExportLabel}>Format</span>
+                                    <label style={styles.toggleLabel}>
+                                        <input
+                                            type="radio"
+                                            checked={imageFormat === "svg"}
+                                            onChange={() => setImageFormat("svg")}
+                                            style={styles.moduleCheckbox}
+                                        />
+                                        SVG
+                                    </label>
+                                    <label style={styles.toggleLabel}>
+                                        <input
+                                            type="radio"
+                                            checked={imageFormat === "png"}
+                                            onChange={() => setImageFormat("png")}
+                                            style={styles.moduleCheckbox}
+                                        />
+                                        PNG
+                                    </label>
+                                    {imageFormat === "png" && (
+                                        <select
+                                            value={imageScale}
+                                            onChange={(e) => setImageScale(Number(e.target.value))}
+                                            style={styles.moduleSelect}
+                                        >
+                                            {[1, 2, 3, 4].map(scale => (
+                                                <option key={scale} value={scale}>{scale}×</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                </div>
+                                <div style={styles.imageExportRow}>
+                                    <span style={styles.imageExportLabel}>Area</span>
+                                    <label style={styles.toggleLabel}>
+                                        <input
+                                            type="radio"
+                                            checked={imageArea === "viewport"}
+                                            onChange={() => setImageArea("viewport")}
+                                            style={styles.moduleCheckbox}
+                                        />
+                                        Visible viewport
+                                    </label>
+                                    <label style={styles.toggleLabel}>
+                                        <input
+                                            type="radio"
+                                            checked={imageArea === "fit"}
+                                            onChange={() => setImageArea("fit")}
+                                            style={styles.moduleCheckbox}
+                                        />
+                                        Fit all entities
+                                    </label>
+                                </div>
+                                <button onClick={exportImage} style={styles.closeButton}>
+                                    Export
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                    <label style={styles.toggleLabel}>
+                        <input
+                            type="checkbox"
+                            checked={showGeneralizations}
+                            onChange={() => setShowGeneralizations(!showGeneralizations)}
+                            style={styles.moduleCheckbox}
+                        />
+                        Inheritance
+                    </label>
+                    <label style={styles.toggleLabel}>
+                        <input
+                            type="checkbox"
+                            checked={showEnumerations}
+                            onChange={() => setShowEnumerations(!showEnumerations)}
+                            style={styles.moduleCheckbox}
+                        />
+                        Enumerations
+                    </label>
                     <button 
                         onClick={() => setZoom(prev => Math.min(3, prev * 1.2))}
                         style={styles.zoomButton}
@@ -811,100 +3528,537 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                     >
                         Reset View
                     </button>
+                    <button
+                        onClick={() => zoomToEntities(filteredEntities)}
+                        style={styles.resetButton}
+                        title="Zoom and pan to show all entities on the canvas"
+                    >
+                        Fit
+                    </button>
+                    <button
+                        onClick={zoomToSelection}
+                        style={styles.resetButton}
+                        disabled={selectedEntities.size === 0}
+                        title="Zoom and pan to the selected entities"
+                    >
+                        Zoom to selection
+                    </button>
+                    <select
+                        value={layoutAlgorithm}
+                        onChange={(e) => {
+                            const algorithm = e.target.value as LayoutAlgorithm;
+                            setLayoutAlgorithm(algorithm);
+                            if (data) runLayout(algorithm, data.entities, data.associations);
+                        }}
+                        style={styles.moduleSelect}
+                        title="Layout algorithm"
+                    >
+                        {LAYOUT_ALGORITHMS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    <button 
+                        onClick={() => data && runLayout(layoutAlgorithm, data.entities, data.associations)}
+                        style={styles.resetButton}
+                        title="Discard manual positions and recalculate the layout"
+                    >
+                        Auto Layout
+                    </button>
+                    <label style={styles.toggleLabel} title="Check the model for changes every few seconds">
+                        <input
+                            type="checkbox"
+                            checked={liveUpdates}
+                            onChange={() => setLiveUpdates(!liveUpdates)}
+                            style={styles.moduleCheckbox}
+                        />
+                        Live
+                    </label>
                     <button 
                         onClick={async () => {
                             try {
-                                setLoading(true);
-                                setError(null);
-                                const newData = await collectOntologyData(studioPro);
-                                setData(newData);
-                                // Re-apply module filter - keep current selections but validate they still exist
-                                const validModules = new Set(
-                                    Array.from(selectedModules).filter(m => 
-                                        newData.modules.some(nm => nm.name === m)
-                                    )
-                                );
-                                setSelectedModules(validModules);
-                                const newPositions = calculateLayout(newData.entities, newData.associations);
-                                setPositions(newPositions);
-                                setLoading(false);
+                                setRefreshing(true);
+                                await checkForModelChanges();
                             } catch (err) {
                                 setError(`Failed to refresh data: ${err}`);
-                                setLoading(false);
+                            } finally {
+                                setRefreshing(false);
                             }
                         }}
                         style={styles.refreshButton}
+                        disabled={refreshing}
                     >
                         🔄 Refresh
                     </button>
+                    <button
+                        onClick={async () => {
+                            try {
+                                clearModelCache();
+                            } catch (err) {
+                                await studioPro.ui.messageBoxes.show("error", "Failed to clear the cache", `${err}`);
+                            }
+                        }}
+                        style={styles.resetButton}
+                        title="Remove the cached domain models, the next time the viewer opens they are loaded from Studio Pro"
+                    >
+                        Clear cache
+                    </button>
                 </div>
             </div>
             
             {/* Stats bar */}
-            <div style={styles.statsBar}>
-                <span>Entities: {filteredEntities.length}</span>
-                <span>Associations: {filteredAssociations.length}</span>
-                <span>Modules: {data?.modules.length || 0}</span>
-                <span>Zoom: {Math.round(zoom * 100)}%</span>
-            </div>
+            {viewMode === "modules" ? (
+                <div style={styles.statsBar}>
+                    <span>Modules: {visibleModules.length}</span>
+                    <span>Dependencies: {moduleDependencies.length}</span>
+                    <span style={moduleCycles.length > 0 ? { color: MENDIX_COLORS.error } : undefined}>
+                        Cycles: {moduleCycles.length}
+                    </span>
+                </div>
+            ) : (
+                <div style={styles.statsBar}>
+                    <span>Entities: {filteredEntities.length}</span>
+                    <span>Associations: {filteredAssociations.length}</span>
+                    {showGeneralizations && <span>Generalizations: {filteredGeneralizations.length}</span>}
+                    <span>Modules: {data?.modules.length || 0}</span>
+                    <span>Zoom: {Math.round(zoom * 100)}%</span>
+                    {layoutRunning && <span style={{ color: MENDIX_COLORS.primary }}>Calculating layout…</span>}
+                    {refreshing && <span style={{ color: MENDIX_COLORS.primary }}>Refreshing…</span>}
+                    {revalidating && <span style={{ color: MENDIX_COLORS.primary }}>Cached model, checking for changes…</span>}
+                    {loadProgress && (
+                        <span style={{ color: MENDIX_COLORS.primary }}>
+                            Loading modules {loadProgress.done}/{loadProgress.total}…
+                        </span>
+                    )}
+                    {failedModules.length > 0 && (
+                        <span
+                            style={{ color: MENDIX_COLORS.error }}
+                            title={failedModules.map(m => `${m.name}: ${m.loadError}`).join("\n")}
+                        >
+                            ⚠ {failedModules.length} module{failedModules.length === 1 ? "" : "s"} failed to load
+                        </span>
+                    )}
+                    {modelChange && (
+                        <button
+                            onClick={() => setModelChange(null)}
+                            style={{ ...styles.modelChanged, ...(modelChange.failed ? { color: MENDIX_COLORS.error } : {}) }}
+                            title="Dismiss"
+                        >
+                            {modelChange.failed
+                                ? `⚠ Checking for model changes failed at ${modelChange.at.toLocaleTimeString()}: ${modelChange.summary}`
+                                : `● Model changed at ${modelChange.at.toLocaleTimeString()}: ${modelChange.summary}`}
+                        </button>
+                    )}
+                </div>
+            )}
             
-            {/* Graph Canvas */}
-            <svg
-                ref={svgRef}
-                style={styles.canvas}
-                onMouseDown={handleMouseDown}
-                onMouseMove={handleMouseMove}
-                onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
-                onWheel={handleWheel}
-                onClick={() => setSelectedEntity(null)}
-            >
-                <g transform={`translate(${pan.x}, ${pan.y}) scale(${zoom})`}>
-                    {/* Associations (render first so they're behind nodes) */}
-                    {filteredAssociations.map(assoc => (
-                        <AssociationEdge
-                            key={assoc.id}
-                            association={assoc}
-                            sourcePos={getEntityPosition(assoc.parentEntity)}
-                            targetPos={getEntityPosition(assoc.childEntity)}
-                            isHighlighted={highlightedAssociationIds.has(assoc.id)}
-                        />
+            {/* Focus mode breadcrumbs */}
+            {focus && viewMode === "entities" && (
+                <div style={styles.focusBar}>
+                    <span>Focus:</span>
+                    {focus.trail.map((id, index) => (
+                        <React.Fragment key={id}>
+                            {index > 0 && <span style={styles.breadcrumbSeparator}>›</span>}
+                            <button
+                                onClick={() => showFocus(focus.trail.slice(0, index + 1), focus.depth)}
+                                style={{
+                                    ...styles.breadcrumb,
+                                    ...(index === focus.trail.length - 1 ? styles.activeBreadcrumb : {})
+                                }}
+                                title={entityIndex.get(id)?.qualifiedName}
+                            >
+                                {entityIndex.get(id)?.name || id}
+                            </button>
+                        </React.Fragment>
                     ))}
-                    
-                    {/* Entity Nodes */}
-                    {filteredEntities.map(entity => {
-                        const pos = positions.get(entity.id);
-                        if (!pos) return null;
+                    <label style={styles.focusDepth}>
+                        Hops:
+                        <select
+                            value={focus.depth}
+                            onChange={(e) => showFocus(focus.trail, Number(e.target.value))}
+                            style={styles.moduleSelect}
+                        >
+                            {[1, 2, 3].map(depth => (
+                                <option key={depth} value={depth}>{depth}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <button onClick={() => setFocus(null)} style={{ ...styles.inlineLinkButton, fontSize: "12px", marginLeft: "12px" }}>
+                        Exit focus
+                    </button>
+                </div>
+            )}
+            
+            {viewMode === "entities" && selectedEntities.size > 1 && (
+                <div style={styles.focusBar}>
+                    <span>{selectedEntities.size} entities selected:</span>
+                    <button onClick={() => alignSelection("left")} style={{ ...styles.inlineLinkButton, fontSize: "12px" }}>
+                        Align left
+                    </button>
+                    <button onClick={() => alignSelection("top")} style={{ ...styles.inlineLinkButton, fontSize: "12px" }}>
+                        Align top
+                    </button>
+                    <button
+                        onClick={() => alignSelection("distribute-horizontal")}
+                        style={{ ...styles.inlineLinkButton, fontSize: "12px" }}
+                        title="Space the entities evenly from left to right"
+                    >
+                        Distribute horizontally
+                    </button>
+                    <button onClick={hideSelection} style={{ ...styles.inlineLinkButton, fontSize: "12px", marginLeft: "12px" }}>
+                        Hide selected
+                    </button>
+                    <button onClick={showOnlySelection} style={{ ...styles.inlineLinkButton, fontSize: "12px" }}>
+                        Show only selected
+                    </button>
+                    <button onClick={() => selectEntity(null)} style={{ ...styles.inlineLinkButton, fontSize: "12px", marginLeft: "12px" }}>
+                        Clear selection
+                    </button>
+                </div>
+            )}
+            
+            {/* Module dependency graph */}
+            {viewMode === "modules" && (
+                <ModuleDependencyGraph
+                    modules={visibleModules}
+                    allModules={data?.modules || []}
+                    entityCounts={moduleEntityCounts}
+                    dependencies={moduleDependencies}
+                    cycles={moduleCycles}
+                    selectedDependency={selectedDependency}
+                    onSelectDependency={setSelectedDependency}
+                    onOpenModule={openDomainModel}
+                />
+            )}
+            
+            {/* Graph Canvas */}
+            {viewMode === "entities" && (
+                <svg
+                    ref={svgRef}
+                    style={styles.canvas}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                    onWheel={handleWheel}
+                    onKeyDown={handleKeyDown}
+                    tabIndex={0}
+                    role="application"
+                    aria-label={`Domain model diagram, ${filteredEntities.length} entities`}
+                    aria-describedby="ontology-canvas-help"
+                    onClick={() => {
+                        if (suppressCanvasClick.current) {
+                            suppressCanvasClick.current = false;
+                            return;
+                        }
+                        selectEntity(null);
+                        setSelectedEnumeration(null);
+                    }}
+                >
+                    <desc id="ontology-canvas-help">
+                        Press Tab to move through the entities and the arrow keys to move to an associated entity.
+                        Enter shows the details of the entity, Escape clears the selection. Shift and the arrow keys
+                        pan the diagram, plus and minus zoom and 0 resets the view.
+                    </desc>
+                    <defs>
+                        <marker
+                            id="generalization-arrow"
+                            viewBox="0 0 12 12"
+                            refX="11"
+                            refY="6"
+                            markerWidth="10"
+                            markerHeight="10"
+                            markerUnits="userSpaceOnUse"
+                            orient="auto"
+                        >
+                            <path d="M 1 1 L 11 6 L 1 11 z" fill={MENDIX_COLORS.canvas} stroke={MENDIX_COLORS.warning} strokeWidth={1.5} />
+                        </marker>
+                        <AssociationArrowMarkers />
+                    </defs>
+                    <g data-viewport transform={`translate(${pan.x}, ${pan.y}) scale(${zoom})`}>
+                        {/* Module boxes (module cluster layout) */}
+                        {moduleBoxes && Array.from(moduleBoxes.values()).map(box => {
+                            const moduleColor = getModuleColor(box.moduleName, data?.modules || []);
+                            return (
+                                <g key={`box-${box.moduleName}`}>
+                                    <rect
+                                        x={box.x}
+                                        y={box.y}
+                                        width={box.width}
+                                        height={box.height}
+                                        rx={8}
+                                        fill={moduleColor}
+                                        fillOpacity={0.06}
+                                        stroke={moduleColor}
+                                        strokeDasharray="6,4"
+                                        strokeWidth={1.5}
+                                    />
+                                    <text
+                                        x={box.x + 10}
+                                        y={box.y + 18}
+                                        fill={moduleColor}
+                                        fontSize={13}
+                                        fontWeight="bold"
+                                    >
+                                        {box.moduleName}
+                                    </text>
+                                </g>
+                            );
+                        })}
                         
-                        return (
-                            <EntityNode
-                                key={entity.id}
-                                entity={{ ...entity, position: pos }}
-                                isSelected={selectedEntity === entity.id}
-                                moduleColor={getModuleColor(entity.moduleName, data?.modules || [])}
-                                onClick={() => setSelectedEntity(entity.id)}
-                                onDrag={handleNodeDrag}
-                            />
-                        );
-                    })}
-                </g>
-            </svg>
+                        {/* Generalizations (inheritance) */}
+                        {filteredGeneralizations.map(entity => {
+                            const sourcePos = displayPositions.get(entity.id);
+                            const targetPos = getEntityPosition(entity.generalization!);
+                            if (!isEdgeInView(sourcePos, targetPos)) return null;
+                            
+                            return (
+                                <GeneralizationEdge
+                                    key={`gen-${entity.id}`}
+                                    specialization={entity}
+                                    sourcePos={sourcePos}
+                                    targetPos={targetPos}
+                                    isHighlighted={
+                                        selectedEntity === entity.id || 
+                                        (selectedQualifiedName !== undefined && selectedQualifiedName === entity.generalization)
+                                    }
+                                />
+                            );
+                        })}
+                        
+                        {/* Enumeration usages */}
+                        {showEnumerations && visibleEnumerations.flatMap(enumeration =>
+                            Array.from(enumerationUsages.get(enumeration.qualifiedName)!.entries()).map(([entityId, attributeNames]) => {
+                                const entityPos = displayPositions.get(entityId);
+                                const enumerationPos = enumerationNodePositions.get(enumeration.qualifiedName);
+                                if (!isEdgeInView(entityPos, enumerationPos)) return null;
+                                
+                                return (
+                                    <EnumerationEdge
+                                        key={`enum-${enumeration.qualifiedName}-${entityId}`}
+                                        attributeNames={attributeNames}
+                                        entityPos={entityPos}
+                                        enumerationPos={enumerationPos}
+                                        isHighlighted={selectedEnumeration === enumeration.qualifiedName || selectedEntity === entityId}
+                                    />
+                                );
+                            })
+                        )}
+                        
+                        {/* Associations (render first so they're behind nodes) */}
+                        {filteredAssociations.map(assoc => {
+                            const sourcePos = getEntityPosition(assoc.parentEntity);
+                            const targetPos = getEntityPosition(assoc.childEntity);
+                            const route = getClusterRoute(assoc);
+                            if (!isEdgeInView(sourcePos, targetPos, route)) return null;
+                            
+                            return (
+                                <AssociationEdge
+                                    key={assoc.id}
+                                    association={assoc}
+                                    sourcePos={sourcePos}
+                                    targetPos={targetPos}
+                                    isHighlighted={highlightedAssociationIds.has(assoc.id)}
+                                    isOnPath={pathAssociationIds.has(assoc.id)}
+                                    route={route}
+                                    diffKind={associationDiffs.get(getAssociationQualifiedName(assoc, entityIndex))?.kind}
+                                    detailed={showDetails}
+                                />
+                            );
+                        })}
+                        {removedAssociations.map(assoc => {
+                            const parent = snapshotIndex.get(assoc.parentEntity)?.qualifiedName;
+                            const child = snapshotIndex.get(assoc.childEntity)?.qualifiedName;
+                            const isShown = (qualifiedName: string) =>
+                                filteredEntityQualifiedNames.has(qualifiedName) || removedEntityPositions.has(qualifiedName);
+                            if (!parent || !child || !isShown(parent) || !isShown(child)) return null;
+                            const sourcePos = getEntityPosition(parent) || removedEntityPositions.get(parent);
+                            const targetPos = getEntityPosition(child) || removedEntityPositions.get(child);
+                            if (!isEdgeInView(sourcePos, targetPos)) return null;
+                        
+                            return (
+                                <AssociationEdge
+                                    key={`removed-${assoc.id}`}
+                                    association={assoc}
+                                    sourcePos={sourcePos}
+                                    targetPos={targetPos}
+                                    isHighlighted={false}
+                                    diffKind="removed"
+                                    detailed={showDetails}
+                                />
+                            );
+                        })}
+                        
+                        {/* Entity Nodes */}
+                        {renderedEntities.map(entity => {
+                            const pos = displayPositions.get(entity.id);
+                            if (!pos) return null;
+                            
+                            return (
+                                <EntityNode
+                                    key={entity.id}
+                                    entity={entity}
+                                    position={pos}
+                                    isSelected={selectedEntities.has(entity.id)}
+                                    isOnPath={pathEntityIds.has(entity.id)}
+                                    searchMatch={searchResults && searchMode === "highlight" ? searchResultIds.has(entity.id) : undefined}
+                                    diff={entityDiffs.get(entity.qualifiedName)}
+                                    moduleColor={getModuleColor(entity.moduleName, data?.modules || [])}
+                                    detailed={showDetails}
+                                    onClick={handleEntityClick}
+                                    onDoubleClick={handleEntityDoubleClick}
+                                    onDrag={handleNodeDrag}
+                                    label={entityLabels.get(entity.id)}
+                                    isFocused={keyboardEntity === entity.id}
+                                    onFocusChange={handleEntityFocusChange}
+                                />
+                            );
+                        })}
+                        
+                        {/* Entities removed since the compared snapshot */}
+                        {removedEntities.map(entity => {
+                            const pos = removedEntityPositions.get(entity.qualifiedName);
+                            if (!pos || !isNodeInView(pos, NODE_WIDTH, getNodeHeight(entity))) return null;
+                            
+                            return (
+                                <EntityNode
+                                    key={`removed-${entity.qualifiedName}`}
+                                    entity={entity}
+                                    position={pos}
+                                    isSelected={false}
+                                    diff={entityDiffs.get(entity.qualifiedName)}
+                                    moduleColor={getModuleColor(entity.moduleName, data?.modules || [])}
+                                    detailed={showDetails}
+                                    onClick={() => undefined}
+                                    onDrag={() => undefined}
+                                />
+                            );
+                        })}
+                        
+                        {/* Enumeration Nodes */}
+                        {showEnumerations && visibleEnumerations.map(enumeration => {
+                            const pos = enumerationNodePositions.get(enumeration.qualifiedName);
+                            if (!pos || !isNodeInView(pos, ENUMERATION_NODE_WIDTH, getEnumerationNodeHeight(enumeration))) return null;
+                            
+                            return (
+                                <EnumerationNode
+                                    key={enumeration.qualifiedName}
+                                    enumeration={enumeration}
+                                    position={pos}
+                                    isSelected={selectedEnumeration === enumeration.qualifiedName}
+                                    moduleColor={getModuleColor(enumeration.moduleName, data?.modules || [])}
+                                    onClick={() => { selectEntity(null); setSelectedEnumeration(enumeration.qualifiedName); }}
+                                    onDoubleClick={() => openDocument(enumeration.id, `enumeration ${enumeration.qualifiedName}`)}
+                                    onDrag={handleEnumerationDrag}
+                                />
+                            );
+                        })}
+                        
+                        {/* Rubber band selection */}
+                        {rubberBand && (() => {
+                            const band = getRubberBandRect(rubberBand);
+                            return (
+                                <rect
+                                    x={band.x}
+                                    y={band.y}
+                                    width={band.width}
+                                    height={band.height}
+                                    fill={MENDIX_COLORS.primary}
+                                    fillOpacity={0.1}
+                                    stroke={MENDIX_COLORS.primary}
+                                    strokeDasharray="4,3"
+                                    strokeWidth={1 / zoom}
+                                />
+                            );
+                        })()}
+                    </g>
+                </svg>
+            )}
+            
+            {/* Minimap */}
+            {viewMode === "entities" && visibleArea && (
+                <Minimap
+                    entities={filteredEntities}
+                    positions={displayPositions}
+                    modules={data?.modules || []}
+                    visibleArea={visibleArea}
+                    onCenter={centerOn}
+                />
+            )}
             
             {/* Legend */}
             <div style={styles.legend}>
                 <h4 style={styles.legendTitle}>Legend</h4>
-                <div style={styles.legendItem}>
-                    <div style={{ ...styles.legendLine, borderStyle: "solid" }}></div>
-                    <span>Same module association</span>
-                </div>
-                <div style={styles.legendItem}>
-                    <div style={{ ...styles.legendLine, borderStyle: "solid", borderColor: "#FF5722" }}></div>
-                    <span>Cross-module association</span>
-                </div>
-                <div style={styles.legendItem}>
-                    <div style={{ ...styles.legendLine, borderStyle: "dashed" }}></div>
-                    <span>Reference Set (N:M)</span>
-                </div>
+                {viewMode === "modules" ? (
+                    <>
+                        <div style={styles.legendItem}>
+                            <span style={styles.legendSymbol}>▶</span>
+                            <span>Depends on (association owner → other module, specialization → generalization)</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendLine, borderStyle: "solid", borderColor: MENDIX_COLORS.error }}></div>
+                            <span>Dependency in a cycle</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendColor, border: `2px solid ${MENDIX_COLORS.error}` }}></div>
+                            <span>Module in a cycle</span>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendLine, borderStyle: "solid" }}></div>
+                            <span>Same module association</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendLine, borderStyle: "solid", borderColor: "#FF5722" }}></div>
+                            <span>Cross-module association</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendLine, borderStyle: "dashed" }}></div>
+                            <span>Reference Set (* to *)</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <span style={styles.legendSymbol}>▶</span>
+                            <span>Navigable direction (owner → other end)</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <span style={styles.legendSymbol}>●</span>
+                            <span>End owned by the other entity</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <span style={styles.legendSymbol}>0..1 / *</span>
+                            <span>Multiplicity at each end</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <span style={{ ...styles.legendBadge, backgroundColor: MENDIX_COLORS.error }}>✕</span>
+                            <span>Delete cascades to associated objects</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <span style={{ ...styles.legendBadge, backgroundColor: MENDIX_COLORS.warning }}>!</span>
+                            <span>Delete prevented while associated</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendLine, borderStyle: "solid", borderColor: MENDIX_COLORS.warning }}></div>
+                            <span>Generalization (▷ parent)</span>
+                        </div>
+                        <div style={styles.legendItem}>
+                            <div style={{ ...styles.legendColor, border: `2px dashed ${MENDIX_COLORS.textMuted}` }}></div>
+                            <span>Non-persistable entity</span>
+                        </div>
+                        {showEnumerations && (
+                            <div style={styles.legendItem}>
+                                <div style={{ ...styles.legendLine, borderStyle: "dotted" }}></div>
+                                <span>Enumeration usage</span>
+                            </div>
+                        )}
+                        {modelDiff && (["added", "removed", "changed"] as ChangeKind[]).map(kind => (
+                            <div key={kind} style={styles.legendItem}>
+                                <div style={{ ...styles.legendColor, border: `2px solid ${DIFF_COLORS[kind]}` }}></div>
+                                <span>{DIFF_SYMBOLS[kind]} {kind.charAt(0).toUpperCase() + kind.slice(1)} since snapshot</span>
+                            </div>
+                        ))}
+                    </>
+                )}
                 <h4 style={styles.legendTitle}>Modules</h4>
                 {data?.modules.slice(0, 10).map((module, idx) => (
                     <div key={module.name} style={styles.legendItem}>
@@ -924,8 +4078,172 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                 )}
             </div>
             
+            {/* Shortest path finder */}
+            {pathQuery && (
+                <PathFinderPanel
+                    query={pathQuery}
+                    entities={data?.entities || []}
+                    entityIndex={entityIndex}
+                    path={path}
+                    onChange={setPathQuery}
+                    onSelectEntity={selectEntity}
+                    onClose={() => setPathQuery(null)}
+                />
+            )}
+            
+            {/* Domain model lint findings */}
+            {showLint && (
+                <LintPanel
+                    findings={lintFindings}
+                    config={lintConfig}
+                    includeMarketplace={lintIncludeMarketplace}
+                    onConfigChange={(config) => {
+                        setLintConfig(config);
+                        if (projectId) saveLintConfig(projectId, config);
+                    }}
+                    onIncludeMarketplaceChange={setLintIncludeMarketplace}
+                    onSelectFinding={(finding) => finding.entityId && revealEntity(finding.entityId)}
+                    onClose={() => setShowLint(false)}
+                />
+            )}
+            
+            {/* Changes against the compared snapshot */}
+            {modelDiff && snapshot && (
+                <ModelDiffPanel
+                    diff={modelDiff}
+                    savedAt={snapshot.savedAt}
+                    onSelectEntity={revealEntity}
+                    onClose={() => setSnapshot(null)}
+                />
+            )}
+            
+            {/* Class diagram text panel */}
+            {diagramFormat && (
+                <DiagramTextPanel
+                    format={diagramFormat}
+                    text={diagramText}
+                    onFormatChange={setDiagramFormat}
+                    onClose={() => setDiagramFormat(null)}
+                />
+            )}
+            
+            {/* Selected module dependency details panel */}
+            {viewMode === "modules" && selectedDependency && (() => {
+                const dependency = moduleDependencies.find(dep => getDependencyKey(dep) === selectedDependency);
+                if (!dependency) return null;
+                const inCycle = moduleCycles.some(cycle => cycle.includes(dependency.from) && cycle.includes(dependency.to));
+                
+                return (
+                    <div style={styles.detailsPanel}>
+                        <h3 style={styles.detailsTitle}>{dependency.from} → {dependency.to}</h3>
+                        <p style={styles.detailsModule}>
+                            {dependency.from} depends on {dependency.to}
+                        </p>
+                        {inCycle && (
+                            <p style={{ ...styles.detailsModule, color: MENDIX_COLORS.error }}>
+                                Part of a circular module dependency
+                            </p>
+                        )}
+                        {dependency.associations.length > 0 && (
+                            <>
+                                <h4 style={styles.detailsSubtitle}>Associations ({dependency.associations.length})</h4>
+                                <ul style={styles.attributeList}>
+                                    {dependency.associations.map(assoc => (
+                                        <li key={assoc.id} style={styles.attributeItem}>
+                                            <strong>{assoc.name}</strong>
+                                            <br />
+                                            <button onClick={() => revealEntity(assoc.parentEntity)} style={styles.inlineLinkButton}>
+                                                {getMemberName(assoc.parentEntity)}
+                                            </button>
+                                            {" → "}
+                                            <button onClick={() => revealEntity(assoc.childEntity)} style={styles.inlineLinkButton}>
+                                                {getMemberName(assoc.childEntity)}
+                                            </button>
+                                            <span style={{ color: MENDIX_COLORS.textMuted }}> ({assoc.type})</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                        {dependency.generalizations.length > 0 && (
+                            <>
+                                <h4 style={styles.detailsSubtitle}>Generalizations ({dependency.generalizations.length})</h4>
+                                <ul style={styles.attributeList}>
+                                    {dependency.generalizations.map(entity => (
+                                        <li key={entity.id} style={styles.attributeItem}>
+                                            <button onClick={() => revealEntity(entity.id)} style={styles.inlineLinkButton}>
+                                                {entity.name}
+                                            </button>
+                                            {" ▷ "}
+                                            <button onClick={() => revealEntity(entity.generalization!)} style={styles.inlineLinkButton}>
+                                                {getMemberName(entity.generalization!)}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                        <button onClick={() => setSelectedDependency(null)} style={styles.closeButton}>
+                            Close
+                        </button>
+                    </div>
+                );
+            })()}
+            
+            {/* Selected enumeration details panel */}
+            {viewMode === "entities" && selectedEnumeration && (
+                <div style={styles.detailsPanel}>
+                    {(() => {
+                        const enumeration = data?.enumerations.find(e => e.qualifiedName === selectedEnumeration);
+                        const usages = getEnumerationUsages(data?.entities || [], selectedEnumeration);
+                        
+                        return (
+                            <>
+                                <h3 style={styles.detailsTitle}>{enumeration?.name || selectedEnumeration}</h3>
+                                <p style={styles.detailsModule}>Enumeration · Module: {enumeration?.moduleName || "unknown"}</p>
+                                <h4 style={styles.detailsSubtitle}>Values ({enumeration?.values.length || 0})</h4>
+                                {enumeration ? (
+                                    <ul style={styles.attributeList}>
+                                        {enumeration.values.map(value => (
+                                            <li key={value.name} style={styles.attributeItem}>
+                                                <strong>{value.name}</strong>
+                                                {value.caption !== value.name && (
+                                                    <span style={{ color: MENDIX_COLORS.textMuted }}> ({value.caption})</span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p style={styles.detailsModule}>The enumeration could not be loaded.</p>
+                                )}
+                                <h4 style={styles.detailsSubtitle}>Used by ({usages.length})</h4>
+                                <ul style={styles.attributeList}>
+                                    {usages.map(({ entity, attribute }) => (
+                                        <li key={`${entity.id}-${attribute.name}`} style={styles.attributeItem}>
+                                            <button
+                                                onClick={() => { setSelectedEnumeration(null); selectEntity(entity.id); }}
+                                                style={{ ...styles.inlineLinkButton, display: "inline", fontSize: "inherit" }}
+                                            >
+                                                {entity.qualifiedName}
+                                            </button>
+                                            .{attribute.name}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <button 
+                                    onClick={() => setSelectedEnumeration(null)}
+                                    style={styles.closeButton}
+                                >
+                                    Close
+                                </button>
+                            </>
+                        );
+                    })()}
+                </div>
+            )}
+            
             {/* Selected entity details panel */}
-            {selectedEntity && (
+            {viewMode === "entities" && selectedEntity && (
                 <div style={styles.detailsPanel}>
                     {(() => {
                         const entity = data?.entities.find(e => e.id === selectedEntity);
@@ -947,14 +4265,96 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                                         Extends: {entity.generalization}
                                     </p>
                                 )}
+                                <p style={styles.detailsModule}>
+                                    {entity.persistable ? "Persistable" : "Non-persistable"}
+                                    {entity.systemMembers.length > 0 && ` · System members: ${entity.systemMembers.join(", ")}`}
+                                </p>
+                                {entity.documentation && (
+                                    <p style={styles.detailsDocumentation}>{entity.documentation}</p>
+                                )}
                                 <h4 style={styles.detailsSubtitle}>Attributes ({entity.attributes.length})</h4>
                                 <ul style={styles.attributeList}>
                                     {entity.attributes.map(attr => (
                                         <li key={attr.name} style={styles.attributeItem}>
-                                            <strong>{attr.name}</strong>: {attr.type}
+                                            <strong>{attr.name}</strong>:{" "}
+                                            {attr.enumeration ? (
+                                                <button
+                                                    onClick={() => { selectEntity(null); setSelectedEnumeration(attr.enumeration); }}
+                                                    style={{ ...styles.inlineLinkButton, display: "inline", fontSize: "inherit" }}
+                                                >
+                                                    {attr.enumeration}
+                                                </button>
+                                            ) : formatAttributeType(attr)}
+                                            {attr.defaultValue !== null && (
+                                                <span style={{ color: MENDIX_COLORS.textMuted }}> = {attr.defaultValue}</span>
+                                            )}
+                                            {attr.calculated && (
+                                                <span style={{ color: MENDIX_COLORS.textMuted }}>
+                                                    {" "}(calculated by {attr.calculationMicroflow || "no microflow"})
+                                                </span>
+                                            )}
                                         </li>
                                     ))}
                                 </ul>
+                                {entity.validationRules.length > 0 && (
+                                    <>
+                                        <h4 style={styles.detailsSubtitle}>Validation rules ({entity.validationRules.length})</h4>
+                                        <ul style={styles.attributeList}>
+                                            {entity.validationRules.map((rule, idx) => (
+                                                <li key={idx} style={styles.attributeItem}>
+                                                    <strong>{rule.attribute}</strong>: {rule.rule}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                )}
+                                {entity.eventHandlers.length > 0 && (
+                                    <>
+                                        <h4 style={styles.detailsSubtitle}>Event handlers ({entity.eventHandlers.length})</h4>
+                                        <ul style={styles.attributeList}>
+                                            {entity.eventHandlers.map((handler, idx) => (
+                                                <li key={idx} style={styles.attributeItem}>
+                                                    <strong>{handler.moment} {handler.event.toLowerCase()}</strong>: {handler.microflow || "(no microflow)"}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                )}
+                                {entity.indexes.length > 0 && (
+                                    <>
+                                        <h4 style={styles.detailsSubtitle}>Indexes ({entity.indexes.length})</h4>
+                                        <ul style={styles.attributeList}>
+                                            {entity.indexes.map((index, idx) => (
+                                                <li key={idx} style={styles.attributeItem}>
+                                                    {index.attributes.join(", ") || "(empty)"}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                )}
+                                {entity.accessRules.length > 0 && (
+                                    <>
+                                        <h4 style={styles.detailsSubtitle}>Access rules ({entity.accessRules.length})</h4>
+                                        <ul style={styles.attributeList}>
+                                            {entity.accessRules.map((rule, idx) => (
+                                                <li key={idx} style={styles.attributeItem}>
+                                                    <strong>{rule.moduleRoles.join(", ") || "(no roles)"}</strong>
+                                                    <br />
+                                                    <span style={{ fontSize: "11px", color: "#666" }}>
+                                                        {[
+                                                            rule.allowCreate && "create",
+                                                            rule.allowDelete && "delete",
+                                                            `members ${rule.defaultMemberAccess}`
+                                                        ].filter(Boolean).join(" · ")}
+                                                    </span>
+                                                    {rule.xPathConstraint && (
+                                                        <code style={styles.detailsXPath}>{rule.xPathConstraint}</code>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                )}
                                 <h4 style={styles.detailsSubtitle}>
                                     Associations ({relatedAssociations.length})
                                 </h4>
@@ -964,13 +4364,77 @@ const OntologyViewer: React.FC<OntologyViewerProps> = ({ studioPro }) => {
                                             <strong>{assoc.name}</strong>
                                             <br />
                                             <span style={{ fontSize: "11px", color: "#666" }}>
-                                                {assoc.parentEntity} → {assoc.childEntity}
+                                                {assoc.parentEntity} [{getMultiplicity(assoc).parent}]{" "}
+                                                {assoc.owner === "Both" ? "↔" : "→"}{" "}
+                                                [{getMultiplicity(assoc).child}] {assoc.childEntity}
                                             </span>
+                                            {[
+                                                { entity: assoc.parentEntity, kind: getDeleteBehaviorKind(assoc.parentDeleteBehavior) },
+                                                { entity: assoc.childEntity, kind: getDeleteBehaviorKind(assoc.childDeleteBehavior) }
+                                            ].filter(end => end.kind !== "keep").map((end, idx) => (
+                                                <span key={idx} style={{ display: "block", fontSize: "11px", color: MENDIX_COLORS.textMuted }}>
+                                                    Deleting {end.entity}: {end.kind === "cascade" ? "deletes associated objects" : "prevented while associated"}
+                                                </span>
+                                            ))}
+                                            {(() => {
+                                                // Offer to pull in the other end when it is not on the canvas
+                                                const otherEnd = resolveEntity(
+                                                    data?.entities || [],
+                                                    assoc.parentEntity === entity.id || assoc.parentEntity === entity.qualifiedName
+                                                        ? assoc.childEntity
+                                                        : assoc.parentEntity
+                                                );
+                                                if (!otherEnd || filteredEntityIds.has(otherEnd.id)) return null;
+                                                return (
+                                                    <button
+                                                        onClick={() => setEntitiesVisibility([otherEnd.qualifiedName], true)}
+                                                        style={styles.inlineLinkButton}
+                                                    >
+                                                        + show {otherEnd.name}
+                                                    </button>
+                                                );
+                                            })()}
                                         </li>
                                     ))}
                                 </ul>
+                                <div style={styles.imageExportRow}>
+                                    <button
+                                        onClick={() => setPathQuery({ respectNavigability: false, target: "", ...pathQuery, source: entity.qualifiedName })}
+                                        style={styles.dropdownActionButton}
+                                    >
+                                        Path from here
+                                    </button>
+                                    <button
+                                        onClick={() => setPathQuery({ respectNavigability: false, source: "", ...pathQuery, target: entity.qualifiedName })}
+                                        style={styles.dropdownActionButton}
+                                    >
+                                        Path to here
+                                    </button>
+                                </div>
+                                <button 
+                                    onClick={() => openDomainModel(entity.moduleName)}
+                                    style={styles.closeButton}
+                                    title="Open the domain model of the module in Studio Pro"
+                                >
+                                    Open in Studio Pro
+                                </button>
+                                <button 
+                                    onClick={() => focusOn(entity.id)}
+                                    style={styles.closeButton}
+                                >
+                                    Focus neighborhood
+                                </button>
+                                <button 
+                                    onClick={() => {
+                                        setEntitiesVisibility([entity.qualifiedName], false);
+                                        selectEntity(null);
+                                    }}
+                                    style={{ ...styles.closeButton, backgroundColor: MENDIX_COLORS.surfaceLight }}
+                                >
+                                    Hide from view
+                                </button>
                                 <button 
-                                    onClick={() => setSelectedEntity(null)}
+                                    onClick={() => selectEntity(null)}
                                     style={styles.closeButton}
                                 >
                                     Close
@@ -1064,6 +4528,54 @@ const styles: Record<string, React.CSSProperties> = {
         display: "flex",
         flexDirection: "column" as const
     },
+    exportDropdownContent: {
+        position: "absolute" as const,
+        top: "100%",
+        left: 0,
+        marginTop: "4px",
+        backgroundColor: MENDIX_COLORS.surface,
+        borderRadius: "3px",
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        boxShadow: "0 4px 12px rgba(0,0,0,0.4)",
+        zIndex: 1000,
+        minWidth: "160px",
+        display: "flex",
+        flexDirection: "column" as const,
+        padding: "4px 0"
+    },
+    imageExportContent: {
+        position: "absolute" as const,
+        top: "100%",
+        left: 0,
+        marginTop: "4px",
+        backgroundColor: MENDIX_COLORS.surface,
+        borderRadius: "3px",
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        boxShadow: "0 4px 12px rgba(0,0,0,0.4)",
+        zIndex: 1000,
+        minWidth: "280px",
+        padding: "8px 12px"
+    },
+    imageExportRow: {
+        display: "flex",
+        alignItems: "center",
+        gap: "10px",
+        marginBottom: "8px"
+    },
+    imageExportLabel: {
+        width: "50px",
+        fontSize: "12px",
+        color: MENDIX_COLORS.textMuted
+    },
+    exportMenuItem: {
+        padding: "6px 12px",
+        border: "none",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.text,
+        fontSize: "12px",
+        textAlign: "left" as const,
+        cursor: "pointer"
+    },
     dropdownActions: {
         display: "flex",
         gap: "4px",
@@ -1130,6 +4642,15 @@ const styles: Record<string, React.CSSProperties> = {
         backgroundColor: MENDIX_COLORS.warning,
         color: MENDIX_COLORS.background
     },
+    toggleLabel: {
+        display: "flex",
+        alignItems: "center",
+        gap: "4px",
+        fontSize: "12px",
+        color: MENDIX_COLORS.text,
+        cursor: "pointer",
+        userSelect: "none" as const
+    },
     zoomButton: {
         padding: "6px 12px",
         borderRadius: "3px",
@@ -1167,6 +4688,39 @@ const styles: Record<string, React.CSSProperties> = {
         fontSize: "12px",
         color: MENDIX_COLORS.textMuted
     },
+    focusBar: {
+        display: "flex",
+        gap: "6px",
+        alignItems: "center",
+        padding: "4px 16px",
+        backgroundColor: MENDIX_COLORS.surface,
+        borderBottom: `1px solid ${MENDIX_COLORS.border}`,
+        fontSize: "12px",
+        color: MENDIX_COLORS.textMuted
+    },
+    breadcrumb: {
+        padding: "2px 6px",
+        border: "none",
+        borderRadius: "3px",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.primary,
+        fontSize: "12px",
+        cursor: "pointer"
+    },
+    activeBreadcrumb: {
+        backgroundColor: MENDIX_COLORS.surfaceLight,
+        color: MENDIX_COLORS.textBright,
+        fontWeight: 600
+    },
+    breadcrumbSeparator: {
+        color: MENDIX_COLORS.textMuted
+    },
+    focusDepth: {
+        display: "flex",
+        gap: "4px",
+        alignItems: "center",
+        marginLeft: "12px"
+    },
     canvas: {
         flex: 1,
         backgroundColor: MENDIX_COLORS.canvas,
@@ -1185,6 +4739,16 @@ const styles: Record<string, React.CSSProperties> = {
         maxHeight: "300px",
         overflowY: "auto"
     },
+    minimap: {
+        position: "absolute",
+        bottom: "20px",
+        right: "20px",
+        backgroundColor: MENDIX_COLORS.surface,
+        borderRadius: "4px",
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+        cursor: "crosshair"
+    },
     legendTitle: {
         margin: "0 0 8px 0",
         fontSize: "12px",
@@ -1204,6 +4768,23 @@ const styles: Record<string, React.CSSProperties> = {
         height: "0",
         borderTop: `2px solid ${MENDIX_COLORS.textMuted}`
     },
+    legendSymbol: {
+        width: "30px",
+        textAlign: "center",
+        fontSize: "9px",
+        color: MENDIX_COLORS.textMuted
+    },
+    legendBadge: {
+        width: "14px",
+        height: "14px",
+        margin: "0 8px",
+        borderRadius: "50%",
+        textAlign: "center",
+        lineHeight: "14px",
+        fontSize: "9px",
+        fontWeight: "bold",
+        color: MENDIX_COLORS.textBright
+    },
     legendColor: {
         width: "14px",
         height: "14px",
@@ -1222,6 +4803,110 @@ const styles: Record<string, React.CSSProperties> = {
         maxHeight: "calc(100vh - 160px)",
         overflowY: "auto"
     },
+    pathPanel: {
+        position: "absolute",
+        top: "100px",
+        left: "20px",
+        width: "320px",
+        maxHeight: "calc(100vh - 160px)",
+        overflowY: "auto",
+        backgroundColor: MENDIX_COLORS.surface,
+        padding: "12px",
+        borderRadius: "4px",
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        zIndex: 500
+    },
+    lintList: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "2px"
+    },
+    lintFinding: {
+        padding: "3px 4px",
+        border: "none",
+        borderRadius: "3px",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.text,
+        fontSize: "12px",
+        textAlign: "left",
+        cursor: "pointer"
+    },
+    modelChanged: {
+        marginLeft: "auto",
+        padding: 0,
+        border: "none",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.primary,
+        fontSize: "12px",
+        cursor: "pointer"
+    },
+    diffChange: {
+        padding: "0 4px 2px 20px",
+        fontSize: "11px",
+        color: MENDIX_COLORS.textMuted
+    },
+    lintRule: {
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+        padding: "6px 0",
+        borderBottom: `1px solid ${MENDIX_COLORS.border}`
+    },
+    pathHint: {
+        margin: 0,
+        fontSize: "12px",
+        color: MENDIX_COLORS.textMuted
+    },
+    pathList: {
+        margin: 0,
+        paddingLeft: "20px"
+    },
+    pathXPath: {
+        padding: "6px",
+        borderRadius: "3px",
+        backgroundColor: MENDIX_COLORS.canvas,
+        fontSize: "11px",
+        wordBreak: "break-all"
+    },
+    diagramPanel: {
+        position: "absolute",
+        top: "100px",
+        right: "20px",
+        width: "480px",
+        backgroundColor: MENDIX_COLORS.surface,
+        padding: "12px",
+        borderRadius: "4px",
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        zIndex: 500
+    },
+    diagramTabs: {
+        display: "flex",
+        gap: "6px"
+    },
+    activeTab: {
+        backgroundColor: MENDIX_COLORS.primary,
+        color: MENDIX_COLORS.textBright
+    },
+    diagramText: {
+        height: "360px",
+        resize: "vertical",
+        backgroundColor: MENDIX_COLORS.canvas,
+        color: MENDIX_COLORS.text,
+        border: `1px solid ${MENDIX_COLORS.border}`,
+        borderRadius: "3px",
+        padding: "8px",
+        fontFamily: "Consolas, 'Courier New', monospace",
+        fontSize: "12px",
+        whiteSpace: "pre"
+    },
     detailsTitle: {
         margin: "0 0 4px 0",
         color: MENDIX_COLORS.primary,
@@ -1239,6 +4924,19 @@ const styles: Record<string, React.CSSProperties> = {
         color: MENDIX_COLORS.warning,
         fontStyle: "italic"
     },
+    detailsDocumentation: {
+        margin: "8px 0 0 0",
+        fontSize: "12px",
+        color: MENDIX_COLORS.text,
+        whiteSpace: "pre-wrap"
+    },
+    detailsXPath: {
+        display: "block",
+        marginTop: "2px",
+        fontSize: "11px",
+        color: MENDIX_COLORS.textMuted,
+        wordBreak: "break-all"
+    },
     detailsSubtitle: {
         margin: "12px 0 6px 0",
         fontSize: "12px",
@@ -1254,6 +4952,23 @@ const styles: Record<string, React.CSSProperties> = {
     attributeItem: {
         marginBottom: "3px"
     },
+    viewDeleteButton: {
+        marginLeft: "auto",
+        border: "none",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.textMuted,
+        fontSize: "14px",
+        cursor: "pointer"
+    },
+    inlineLinkButton: {
+        display: "block",
+        padding: 0,
+        border: "none",
+        backgroundColor: "transparent",
+        color: MENDIX_COLORS.primary,
+        fontSize: "11px",
+        cursor: "pointer"
+    },
     closeButton: {
         marginTop: "12px",
         padding: "6px 12px",
@@ -1275,6 +4990,26 @@ const styles: Record<string, React.CSSProperties> = {
         color: MENDIX_COLORS.textMuted,
         backgroundColor: MENDIX_COLORS.background
     },
+    loadProgress: {
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        gap: "6px",
+        fontSize: "12px",
+        color: MENDIX_COLORS.textMuted
+    },
+    loadProgressTrack: {
+        width: "240px",
+        height: "6px",
+        borderRadius: "3px",
+        backgroundColor: MENDIX_COLORS.surfaceLight,
+        overflow: "hidden"
+    },
+    loadProgressBar: {
+        height: "100%",
+        backgroundColor: MENDIX_COLORS.primary,
+        transition: "width 0.2s"
+    },
     spinner: {
         width: "40px",
         height: "40px",
@@ -0,0 +1,285 @@
+import { OntologyEntity, OntologyAssociation, NodePosition } from "./types";
+import { createEntityIndex } from "./ontology";
+import { LayoutAlgorithm, LayoutInput, LayoutProgress } from "./forceLayout";
+import { runLayoutAlgorithm } from "./layoutAlgorithms";
+import { NeighborhoodNode, ModuleDependency } from "./graph";
+
+// Generalizations pull harder than associations so specializations sit near their parent
+const ASSOCIATION_WEIGHT = 1;
+const GENERALIZATION_WEIGHT = 2;
+
+// Build the serializable layout input, resolving association ends through the entity index
+export function buildLayoutInput(
+    algorithm: LayoutAlgorithm,
+    entities: OntologyEntity[],
+    associations: OntologyAssociation[],
+    pinned: Map<string, NodePosition> = new Map()
+): LayoutInput {
+    const index = createEntityIndex(entities);
+    const input: LayoutInput = {
+        algorithm,
+        nodes: entities.map(entity => ({ id: entity.id, group: entity.moduleName })),
+        edges: [],
+        pinned: {}
+    };
+
+    associations.forEach(assoc => {
+        const parent = index.get(assoc.parentEntity);
+        const child = index.get(assoc.childEntity);
+        if (parent && child) {
+            input.edges.push({ source: parent.id, target: child.id, weight: ASSOCIATION_WEIGHT });
+        }
+    });
+
+    entities.forEach(entity => {
+        const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+        if (parent) {
+            input.edges.push({ source: entity.id, target: parent.id, weight: GENERALIZATION_WEIGHT });
+        }
+        const pinnedPosition = pinned.get(entity.id);
+        if (pinnedPosition) {
+            input.pinned[entity.id] = pinnedPosition;
+        }
+    });
+
+    return input;
+}
+
+export const LAYOUT_ALGORITHMS: Array<{ value: LayoutAlgorithm; label: string }> = [
+    { value: "force", label: "Force-directed" },
+    { value: "hierarchical", label: "Hierarchical" },
+    { value: "circular", label: "Circular per module" },
+    { value: "modules", label: "Module clusters" }
+];
+
+function toPositionMap(positions: Record<string, NodePosition>): Map<string, NodePosition> {
+    return new Map(Object.entries(positions));
+}
+
+// Run a layout algorithm in a Web Worker, reporting intermediate positions while a force layout settles.
+// Pinned positions (keyed by entity ID) are kept as-is; only the remaining entities are laid out.
+// Falls back to the calling thread when workers are unavailable.
+export function calculateLayoutInWorker(
+    algorithm: LayoutAlgorithm,
+    entities: OntologyEntity[],
+    associations: OntologyAssociation[],
+    pinned: Map<string, NodePosition> = new Map(),
+    onProgress?: (positions: Map<string, NodePosition>) => void
+): { result: Promise<Map<string, NodePosition>>; cancel: () => void } {
+    const input = buildLayoutInput(algorithm, entities, associations, pinned);
+    let worker: Worker | null = null;
+    let cancelled = false;
+
+    const result = new Promise<Map<string, NodePosition>>((resolve) => {
+        const runInline = () => {
+            // Defer so callers can render the loading state first
+            setTimeout(() => {
+                if (!cancelled) resolve(toPositionMap(runLayoutAlgorithm(input)));
+            }, 0);
+        };
+
+        try {
+            worker = new Worker(new URL("./layoutWorker.js", import.meta.url), { type: "module" });
+        } catch {
+            // Workers unavailable, e.g. blocked in the web view - run the layout on the UI thread
+            runInline();
+            return;
+        }
+
+        worker.onmessage = (event: MessageEvent<LayoutProgress>) => {
+            if (cancelled) return;
+            const positions = toPositionMap(event.data.positions);
+            if (event.data.done) {
+                worker?.terminate();
+                resolve(positions);
+            } else {
+                onProgress?.(positions);
+            }
+        };
+        // The same layout on the UI thread when the worker fails
+        worker.onerror = () => {
+            worker?.terminate();
+            runInline();
+        };
+        worker.postMessage(input);
+    });
+
+    return {
+        result,
+        cancel: () => {
+            cancelled = true;
+            worker?.terminate();
+        }
+    };
+}
+
+// Radial layout for focus mode: the center entity stays at `origin`, every hop distance
+// gets its own ring. Ring members are ordered by the angle of the entity they were reached
+// through, so branches of the neighborhood stay together.
+export function calculateFocusLayout(neighborhood: Map<string, NeighborhoodNode>, origin: NodePosition): Map<string, NodePosition> {
+    const rings: string[][] = [];
+    neighborhood.forEach((node, id) => {
+        (rings[node.distance] = rings[node.distance] || []).push(id);
+    });
+
+    const positions = new Map<string, NodePosition>();
+    const angles = new Map<string, number>();
+    let radius = 0;
+
+    rings.forEach((ring, distance) => {
+        if (distance === 0) {
+            ring.forEach(id => {
+                positions.set(id, { x: origin.x, y: origin.y });
+                angles.set(id, 0);
+            });
+            return;
+        }
+
+        // Leave room for about 230px per node along the circumference
+        radius = Math.max(radius + 300, (ring.length * 230) / (2 * Math.PI));
+        const ordered = [...ring].sort((a, b) => {
+            const viaA = angles.get(neighborhood.get(a)!.via!) || 0;
+            const viaB = angles.get(neighborhood.get(b)!.via!) || 0;
+            return viaA - viaB || a.localeCompare(b);
+        });
+        ordered.forEach((id, index) => {
+            const angle = (2 * Math.PI * index) / ordered.length - Math.PI / 2;
+            angles.set(id, angle);
+            positions.set(id, {
+                x: origin.x + radius * Math.cos(angle),
+                y: origin.y + radius * Math.sin(angle)
+            });
+        });
+    });
+
+    return positions;
+}
+
+// Layered layout of the module dependency graph: modules that others depend on end up at the top.
+// Module graphs are small, so this runs on the calling thread.
+export function calculateModuleLayout(modules: string[], dependencies: ModuleDependency[]): Map<string, NodePosition> {
+    const positions = runLayoutAlgorithm({
+        algorithm: "hierarchical",
+        nodes: modules.map(module => ({ id: module, group: module })),
+        edges: dependencies.map(dependency => ({
+            source: dependency.from,
+            target: dependency.to,
+            weight: dependency.associations.length + dependency.generalizations.length
+        })),
+        pinned: {}
+    });
+    return new Map(Object.entries(positions));
+}
+
+// Node footprint, centered on (x, y)
+export interface NodeBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+function overlaps(a: NodeBox, b: NodeBox, gap: number): boolean {
+    return Math.abs(a.x - b.x) * 2 < a.width + b.width + gap * 2 &&
+        Math.abs(a.y - b.y) * 2 < a.height + b.height + gap * 2;
+}
+
+// Place satellite nodes (e.g. enumerations) next to the nodes they belong to: beside a single
+// anchor or at the centroid of several, then moved down until they no longer overlap anything.
+// Cheap enough to run on every render, unlike a layout pass.
+export function placeSatelliteNodes(
+    satellites: Array<{ id: string; anchors: NodePosition[]; width: number; height: number }>,
+    obstacles: NodeBox[]
+): Map<string, NodePosition> {
+    const placed = new Map<string, NodePosition>();
+    const occupied = [...obstacles];
+
+    satellites.forEach(satellite => {
+        if (satellite.anchors.length === 0) return;
+
+        const box: NodeBox = {
+            x: satellite.anchors.reduce((sum, p) => sum + p.x, 0) / satellite.anchors.length,
+            y: satellite.anchors.reduce((sum, p) => sum + p.y, 0) / satellite.anchors.length,
+            width: satellite.width,
+            height: satellite.height
+        };
+        if (satellite.anchors.length === 1) {
+            box.x += 240;
+        }
+        for (let attempt = 0; attempt < 30 && occupied.some(other => overlaps(box, other, 20)); attempt++) {
+            box.y += 60;
+        }
+
+        placed.set(satellite.id, { x: box.x, y: box.y });
+        occupied.push(box);
+    });
+
+    return placed;
+}
+
+export type AlignCommand = "left" | "top" | "distribute-horizontal";
+
+// Smallest gap between nodes when distributing them
+const MIN_DISTRIBUTE_GAP = 40;
+
+// Align or distribute nodes, e.g. to tidy a selection by hand. Left and top line the node edges up
+// with the leftmost / topmost node; distributing leaves equal gaps between the nodes from the
+// leftmost one on, keeping their order.
+export function alignNodes(nodes: Array<NodeBox & { id: string }>, command: AlignCommand): Map<string, NodePosition> {
+    const aligned = new Map<string, NodePosition>();
+    if (nodes.length < 2) return aligned;
+
+    switch (command) {
+        case "left": {
+            const left = Math.min(...nodes.map(node => node.x - node.width / 2));
+            nodes.forEach(node => aligned.set(node.id, { x: left + node.width / 2, y: node.y }));
+            break;
+        }
+        case "top": {
+            const top = Math.min(...nodes.map(node => node.y - node.height / 2));
+            nodes.forEach(node => aligned.set(node.id, { x: node.x, y: top + node.height / 2 }));
+            break;
+        }
+        case "distribute-horizontal": {
+            const sorted = [...nodes].sort((a, b) => a.x - b.x);
+            const first = sorted[0];
+            const last = sorted[sorted.length - 1];
+            const span = (last.x + last.width / 2) - (first.x - first.width / 2);
+            const totalWidth = sorted.reduce((sum, node) => sum + node.width, 0);
+            const gap = Math.max(MIN_DISTRIBUTE_GAP, (span - totalWidth) / (sorted.length - 1));
+
+            let left = first.x - first.width / 2;
+            sorted.forEach(node => {
+                aligned.set(node.id, { x: left + node.width / 2, y: node.y });
+                left += node.width + gap;
+            });
+            break;
+        }
+    }
+
+    return aligned;
+}
+
+// Convert saved positions (keyed by qualified name) to pinned positions keyed by entity ID
+export function toPinnedPositions(saved: Record<string, NodePosition>, entities: OntologyEntity[]): Map<string, NodePosition> {
+    const pinned = new Map<string, NodePosition>();
+    entities.forEach(entity => {
+        const position = saved[entity.qualifiedName];
+        if (position) {
+            pinned.set(entity.id, position);
+        }
+    });
+    return pinned;
+}
+
+// Convert positions keyed by entity ID to a serializable record keyed by qualified name
+export function toSavedPositions(positions: Map<string, NodePosition>, entities: OntologyEntity[]): Record<string, NodePosition> {
+    const saved: Record<string, NodePosition> = {};
+    entities.forEach(entity => {
+        const position = positions.get(entity.id);
+        if (position) {
+            saved[entity.qualifiedName] = { x: position.x, y: position.y };
+        }
+    });
+    return saved;
+}
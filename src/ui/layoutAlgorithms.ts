@@ -0,0 +1,262 @@
+import { NodePosition } from "./types";
+import { runForceLayout, LayoutInput, LayoutProgress, LayoutBounds } from "./forceLayout";
+
+// Deterministic layouts next to the force-directed one. Like forceLayout.ts this
+// module runs inside the layout Web Worker and only works on serializable input.
+
+const NODE_SPACING_X = 230;
+const NODE_SPACING_Y = 240;
+const CLUSTER_GAP = 120;
+const ORIGIN = 150;
+
+// Run the algorithm selected in the input. Pinned nodes always keep their position.
+export function runLayoutAlgorithm(
+    input: LayoutInput,
+    onProgress?: (progress: LayoutProgress) => void
+): Record<string, NodePosition> {
+    let positions: Record<string, NodePosition>;
+    switch (input.algorithm) {
+        case "hierarchical":
+            positions = hierarchicalLayout(input);
+            break;
+        case "circular":
+            positions = circularLayout(input);
+            break;
+        case "modules":
+            positions = moduleClusterLayout(input);
+            break;
+        default:
+            return runForceLayout(input, onProgress);
+    }
+    return { ...positions, ...input.pinned };
+}
+
+function groupNodes(input: LayoutInput): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    input.nodes.forEach(node => {
+        const group = groups.get(node.group) || [];
+        group.push(node.id);
+        groups.set(node.group, group);
+    });
+    return groups;
+}
+
+function buildAdjacency(input: LayoutInput): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>(input.nodes.map(node => [node.id, new Set<string>()]));
+    input.edges.forEach(edge => {
+        if (edge.source === edge.target) return;
+        adjacency.get(edge.source)?.add(edge.target);
+        adjacency.get(edge.target)?.add(edge.source);
+    });
+    return adjacency;
+}
+
+// Shelf-pack rectangles into rows of roughly equal width, returns top-left corners
+function packRectangles(sizes: LayoutBounds[]): NodePosition[] {
+    const totalArea = sizes.reduce((sum, size) => sum + (size.width + CLUSTER_GAP) * (size.height + CLUSTER_GAP), 0);
+    const widest = Math.max(0, ...sizes.map(size => size.width));
+    const rowWidth = Math.max(widest, Math.sqrt(totalArea) * 1.5);
+
+    const corners: NodePosition[] = [];
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+    sizes.forEach(size => {
+        if (x > 0 && x + size.width > rowWidth) {
+            x = 0;
+            y += rowHeight + CLUSTER_GAP;
+            rowHeight = 0;
+        }
+        corners.push({ x, y });
+        x += size.width + CLUSTER_GAP;
+        rowHeight = Math.max(rowHeight, size.height);
+    });
+    return corners;
+}
+
+// Sugiyama-style layered layout. Edges point from the dependent entity (specialization,
+// association owner) to the entity it depends on, which is placed in a layer above it.
+function hierarchicalLayout(input: LayoutInput): Record<string, NodePosition> {
+    const ids = input.nodes.map(node => node.id);
+    const outgoing = new Map<string, Set<string>>(ids.map(id => [id, new Set<string>()]));
+    const connected = new Set<string>();
+    input.edges.forEach(edge => {
+        if (edge.source === edge.target || !outgoing.has(edge.source) || !outgoing.has(edge.target)) return;
+        outgoing.get(edge.source)!.add(edge.target);
+        connected.add(edge.source);
+        connected.add(edge.target);
+    });
+
+    // 1. Break cycles by dropping back edges found with a depth-first search
+    const state = new Map<string, "visiting" | "done">();
+    const acyclic = new Map<string, string[]>(ids.map(id => [id, []]));
+    const visit = (id: string) => {
+        state.set(id, "visiting");
+        for (const target of outgoing.get(id)!) {
+            if (state.get(target) === "visiting") continue;
+            acyclic.get(id)!.push(target);
+            if (!state.has(target)) visit(target);
+        }
+        state.set(id, "done");
+    };
+    ids.forEach(id => {
+        if (!state.has(id)) visit(id);
+    });
+
+    // 2. Longest-path layering: entities nothing depends on end up at the bottom
+    const layerOf = new Map<string, number>();
+    const assignLayer = (id: string): number => {
+        const known = layerOf.get(id);
+        if (known !== undefined) return known;
+        const targets = acyclic.get(id)!;
+        const layer = targets.length === 0 ? 0 : 1 + Math.max(...targets.map(assignLayer));
+        layerOf.set(id, layer);
+        return layer;
+    };
+    const connectedIds = ids.filter(id => connected.has(id));
+    connectedIds.forEach(assignLayer);
+
+    const layers: string[][] = [];
+    connectedIds.forEach(id => {
+        const layer = layerOf.get(id)!;
+        (layers[layer] = layers[layer] || []).push(id);
+    });
+
+    // 3. Reduce crossings with barycenter sweeps over the layers above and below
+    const adjacency = buildAdjacency(input);
+    const order = new Map<string, number>();
+    const updateOrder = (layer: string[]) => layer.forEach((id, index) => order.set(id, index));
+    layers.forEach(updateOrder);
+
+    const barycenter = (id: string, neighbourLayer: number): number => {
+        const neighbours = Array.from(adjacency.get(id)!).filter(n => layerOf.get(n) === neighbourLayer);
+        if (neighbours.length === 0) return order.get(id)!;
+        return neighbours.reduce((sum, n) => sum + order.get(n)!, 0) / neighbours.length;
+    };
+
+    for (let sweep = 0; sweep < 8; sweep++) {
+        const downwards = sweep % 2 === 0;
+        for (let step = 1; step < layers.length; step++) {
+            const layerIndex = downwards ? layers.length - 1 - step : step;
+            const neighbourLayer = downwards ? layerIndex + 1 : layerIndex - 1;
+            const layer = layers[layerIndex];
+            if (!layer) continue;
+            const weights = new Map(layer.map(id => [id, barycenter(id, neighbourLayer)]));
+            layer.sort((a, b) => weights.get(a)! - weights.get(b)!);
+            updateOrder(layer);
+        }
+    }
+
+    // 4. Assign coordinates - layer 0 (depends on nothing) at the top, rows centered
+    const positions: Record<string, NodePosition> = {};
+    const widestLayer = Math.max(0, ...layers.map(layer => layer?.length || 0));
+    const canvasWidth = Math.max(widestLayer, 1) * NODE_SPACING_X;
+    layers.forEach((layer, layerIndex) => {
+        if (!layer) return;
+        const offset = (canvasWidth - layer.length * NODE_SPACING_X) / 2;
+        layer.forEach((id, index) => {
+            positions[id] = {
+                x: ORIGIN + offset + index * NODE_SPACING_X,
+                y: ORIGIN + layerIndex * NODE_SPACING_Y
+            };
+        });
+    });
+
+    // Entities without any relation go into a grid below the hierarchy
+    const isolated = ids.filter(id => !connected.has(id));
+    const columns = Math.max(widestLayer, Math.ceil(Math.sqrt(isolated.length)), 1);
+    const isolatedTop = ORIGIN + layers.length * NODE_SPACING_Y;
+    isolated.forEach((id, index) => {
+        positions[id] = {
+            x: ORIGIN + (index % columns) * NODE_SPACING_X,
+            y: isolatedTop + Math.floor(index / columns) * NODE_SPACING_Y
+        };
+    });
+
+    return positions;
+}
+
+// Order the members of a group so that connected entities are neighbours on the circle
+function connectedOrder(members: string[], adjacency: Map<string, Set<string>>): string[] {
+    const memberSet = new Set(members);
+    const visited = new Set<string>();
+    const ordered: string[] = [];
+    const byDegree = [...members].sort((a, b) => adjacency.get(b)!.size - adjacency.get(a)!.size);
+
+    byDegree.forEach(start => {
+        if (visited.has(start)) return;
+        const stack = [start];
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            if (visited.has(id)) continue;
+            visited.add(id);
+            ordered.push(id);
+            adjacency.get(id)!.forEach(n => {
+                if (memberSet.has(n) && !visited.has(n)) stack.push(n);
+            });
+        }
+    });
+    return ordered;
+}
+
+// One circle per module, circles packed in rows
+function circularLayout(input: LayoutInput): Record<string, NodePosition> {
+    const adjacency = buildAdjacency(input);
+    const groups = Array.from(groupNodes(input).values());
+    const radii = groups.map(members =>
+        members.length === 1 ? 0 : Math.max(140, (members.length * NODE_SPACING_X * 0.9) / (2 * Math.PI))
+    );
+    const corners = packRectangles(radii.map(radius => ({
+        width: radius * 2 + NODE_SPACING_X,
+        height: radius * 2 + NODE_SPACING_Y * 0.6
+    })));
+
+    const positions: Record<string, NodePosition> = {};
+    groups.forEach((members, groupIndex) => {
+        const radius = radii[groupIndex];
+        const centerX = ORIGIN + corners[groupIndex].x + radius + NODE_SPACING_X / 2;
+        const centerY = ORIGIN + corners[groupIndex].y + radius + NODE_SPACING_Y * 0.3;
+        connectedOrder(members, adjacency).forEach((id, index) => {
+            const angle = (2 * Math.PI * index) / members.length - Math.PI / 2;
+            positions[id] = {
+                x: centerX + radius * Math.cos(angle),
+                y: centerY + radius * Math.sin(angle)
+            };
+        });
+    });
+    return positions;
+}
+
+// Compound layout: every module is laid out as its own compact cluster, clusters are packed in rows
+function moduleClusterLayout(input: LayoutInput): Record<string, NodePosition> {
+    const groups = Array.from(groupNodes(input).entries());
+    const clusterLayouts = groups.map(([groupName, members]) => {
+        const memberSet = new Set(members);
+        const side = Math.sqrt(members.length);
+        const bounds: LayoutBounds = {
+            width: Math.max(NODE_SPACING_X + 200, Math.ceil(side * 1.3) * NODE_SPACING_X),
+            height: Math.max(NODE_SPACING_Y, Math.ceil(side) * NODE_SPACING_Y)
+        };
+
+        const positions = runForceLayout({
+            algorithm: "force",
+            nodes: members.map(id => ({ id, group: groupName })),
+            edges: input.edges.filter(edge => memberSet.has(edge.source) && memberSet.has(edge.target)),
+            pinned: {},
+            bounds
+        });
+        return { positions, bounds };
+    });
+
+    const corners = packRectangles(clusterLayouts.map(layout => layout.bounds));
+    const positions: Record<string, NodePosition> = {};
+    clusterLayouts.forEach((layout, index) => {
+        for (const [id, position] of Object.entries(layout.positions)) {
+            positions[id] = {
+                x: ORIGIN + corners[index].x + position.x,
+                y: ORIGIN + corners[index].y + position.y
+            };
+        }
+    });
+    return positions;
+}
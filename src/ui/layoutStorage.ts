@@ -0,0 +1,102 @@
+import { NodePosition } from "./types";
+import { LayoutAlgorithm } from "./forceLayout";
+
+// Layout state persisted per app, positions keyed by entity qualified name
+export interface SavedLayout {
+    positions: Record<string, NodePosition>;
+    zoom: number;
+    pan: NodePosition;
+    selectedModules: string[];
+    // Qualified names shown regardless of the module filter / always hidden
+    includedEntities?: string[];
+    excludedEntities?: string[];
+    algorithm?: LayoutAlgorithm;
+}
+
+// A named slice of the model, e.g. "Order flow"
+export interface SavedView extends SavedLayout {
+    name: string;
+}
+
+// File format for sharing views alongside the app
+interface ViewsFile {
+    version: 1;
+    views: SavedView[];
+}
+
+const STORAGE_PREFIX = "DomainModelOnthology.layout.";
+const VIEWS_STORAGE_PREFIX = "DomainModelOnthology.views.";
+
+export function loadLayout(projectId: string): SavedLayout | null {
+    try {
+        const raw = localStorage.getItem(STORAGE_PREFIX + projectId);
+        return raw ? (JSON.parse(raw) as SavedLayout) : null;
+    } catch {
+        // Storage unavailable or the entry is corrupt, start without a saved layout
+        return null;
+    }
+}
+
+export function saveLayout(projectId: string, layout: SavedLayout): void {
+    try {
+        localStorage.setItem(STORAGE_PREFIX + projectId, JSON.stringify(layout));
+    } catch {
+        // Storage unavailable or full, the layout is not remembered
+    }
+}
+
+export function loadViews(projectId: string): SavedView[] {
+    try {
+        const raw = localStorage.getItem(VIEWS_STORAGE_PREFIX + projectId);
+        return raw ? (JSON.parse(raw) as SavedView[]) : [];
+    } catch {
+        // Storage unavailable or the entry is corrupt, start without views
+        return [];
+    }
+}
+
+export function saveViews(projectId: string, views: SavedView[]): void {
+    try {
+        localStorage.setItem(VIEWS_STORAGE_PREFIX + projectId, JSON.stringify(views));
+    } catch {
+        // Storage unavailable or full, the views are not remembered
+    }
+}
+
+export function serializeViews(views: SavedView[]): string {
+    const file: ViewsFile = { version: 1, views };
+    return JSON.stringify(file, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositions(value: unknown): value is Record<string, NodePosition> {
+    return isObject(value) && Object.values(value).every(pos =>
+        isObject(pos) && typeof pos.x === "number" && typeof pos.y === "number");
+}
+
+// Parse an exported views file, throwing when it is not one
+export function parseViews(json: string): SavedView[] {
+    const file = JSON.parse(json) as Partial<ViewsFile>;
+    if (!file || !Array.isArray(file.views)) {
+        throw new Error("The file does not contain any views");
+    }
+
+    return file.views.map((view, index) => {
+        if (!isObject(view) || typeof view.name !== "string" || !isPositions(view.positions) || !Array.isArray(view.selectedModules)) {
+            throw new Error(`View #${index + 1} is not a valid view`);
+        }
+        return {
+            name: view.name,
+            positions: view.positions,
+            zoom: typeof view.zoom === "number" ? view.zoom : 1,
+            pan: view.pan || { x: 0, y: 0 },
+            selectedModules: view.selectedModules,
+            includedEntities: view.includedEntities || [],
+            excludedEntities: view.excludedEntities || [],
+            algorithm: view.algorithm || "force"
+        };
+    });
+}
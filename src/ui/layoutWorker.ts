@@ -0,0 +1,11 @@
+import { LayoutInput, LayoutProgress } from "./forceLayout";
+import { runLayoutAlgorithm } from "./layoutAlgorithms";
+
+// Web Worker entry point - runs the layout off the UI thread and streams progress back
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<LayoutInput>) => {
+    const positions = runLayoutAlgorithm(event.data, progress => worker.postMessage(progress));
+    const result: LayoutProgress = { positions, iteration: -1, done: true };
+    worker.postMessage(result);
+};
@@ -0,0 +1,242 @@
+import { OntologyData, OntologyEntity } from "./types";
+import { createEntityIndex } from "./ontology";
+import { getModuleDependencies, findModuleCycles } from "./graph";
+
+// Domain model quality rules, run over the collected ontology
+
+export type LintSeverity = "warning" | "info";
+
+export interface LintFinding {
+    ruleId: string;
+    severity: LintSeverity;
+    message: string;
+    // Entity to select when the finding is clicked
+    entityId: string | null;
+}
+
+// Per-rule settings, persisted per app
+export interface LintRuleSettings {
+    enabled: boolean;
+    threshold?: number;
+    pattern?: string;
+}
+
+export type LintConfig = Record<string, LintRuleSettings>;
+
+interface LintContext {
+    data: OntologyData;
+    index: Map<string, OntologyEntity>;
+    // Entities of the modules being checked
+    entities: OntologyEntity[];
+}
+
+export interface LintRule {
+    id: string;
+    name: string;
+    severity: LintSeverity;
+    defaults: LintRuleSettings;
+    // Label of the threshold or pattern setting, when the rule has one
+    settingLabel?: string;
+    check: (context: LintContext, settings: LintRuleSettings, report: ReportFinding) => LintFinding[];
+}
+
+// Creates a finding of the rule being run
+type ReportFinding = (message: string, entity: OntologyEntity | null) => LintFinding;
+
+// Pattern settings are user input - an invalid expression disables the check instead of failing the run
+function toRegExp(pattern: string | undefined): RegExp | null {
+    try {
+        return pattern ? new RegExp(pattern) : null;
+    } catch {
+        return null;
+    }
+}
+
+function getInheritanceDepth(entity: OntologyEntity, index: Map<string, OntologyEntity>): number {
+    let depth = 0;
+    const seen = new Set<string>([entity.id]);
+    let current = entity.generalization ? index.get(entity.generalization) : undefined;
+    while (current && !seen.has(current.id)) {
+        depth++;
+        seen.add(current.id);
+        current = current.generalization ? index.get(current.generalization) : undefined;
+    }
+    return depth;
+}
+
+export const LINT_RULES: LintRule[] = [
+    {
+        id: "no-attributes",
+        name: "Entities without attributes",
+        severity: "info",
+        defaults: { enabled: true },
+        check: ({ entities }, _settings, report) => entities
+            .filter(entity => entity.attributes.length === 0 && !entity.generalization)
+            .map(entity => report(`${entity.qualifiedName} has no attributes`, entity))
+    },
+    {
+        id: "orphan-entities",
+        name: "Orphan entities",
+        severity: "warning",
+        defaults: { enabled: true },
+        check: ({ data, index, entities }, _settings, report) => {
+            const connected = new Set<string>();
+            data.associations.forEach(assoc => {
+                const parent = index.get(assoc.parentEntity);
+                const child = index.get(assoc.childEntity);
+                if (parent) connected.add(parent.id);
+                if (child) connected.add(child.id);
+            });
+            data.entities.forEach(entity => {
+                const parent = entity.generalization ? index.get(entity.generalization) : undefined;
+                if (parent) {
+                    connected.add(entity.id);
+                    connected.add(parent.id);
+                }
+            });
+            return entities
+                .filter(entity => !connected.has(entity.id))
+                .map(entity => report(`${entity.qualifiedName} has no associations or generalizations`, entity));
+        }
+    },
+    {
+        id: "deep-inheritance",
+        name: "Deep inheritance chains",
+        severity: "warning",
+        defaults: { enabled: true, threshold: 3 },
+        settingLabel: "Max depth",
+        check: ({ index, entities }, settings, report) => entities.flatMap(entity => {
+            const depth = getInheritanceDepth(entity, index);
+            return depth > (settings.threshold ?? 3)
+                ? [report(`${entity.qualifiedName} is ${depth} generalizations deep`, entity)]
+                : [];
+        })
+    },
+    {
+        id: "too-many-attributes",
+        name: "Entities with many attributes",
+        severity: "warning",
+        defaults: { enabled: true, threshold: 30 },
+        settingLabel: "Max attributes",
+        check: ({ entities }, settings, report) => entities
+            .filter(entity => entity.attributes.length > (settings.threshold ?? 30))
+            .map(entity => report(`${entity.qualifiedName} has ${entity.attributes.length} attributes`, entity))
+    },
+    {
+        id: "entity-naming",
+        name: "Entity naming convention",
+        severity: "info",
+        defaults: { enabled: true, pattern: "^[A-Z][A-Za-z0-9]*$" },
+        settingLabel: "Pattern",
+        check: ({ entities }, settings, report) => {
+            const pattern = toRegExp(settings.pattern);
+            if (!pattern) return [];
+            return entities
+                .filter(entity => !pattern.test(entity.name))
+                .map(entity => report(`Entity name ${entity.qualifiedName} does not match ${settings.pattern}`, entity));
+        }
+    },
+    {
+        id: "attribute-naming",
+        name: "Attribute naming convention",
+        severity: "info",
+        defaults: { enabled: true, pattern: "^[A-Z][A-Za-z0-9_]*$" },
+        settingLabel: "Pattern",
+        check: ({ entities }, settings, report) => {
+            const pattern = toRegExp(settings.pattern);
+            if (!pattern) return [];
+            return entities.flatMap(entity => entity.attributes
+                .filter(attr => !pattern.test(attr.name))
+                .map(attr => report(`Attribute ${entity.qualifiedName}.${attr.name} does not match ${settings.pattern}`, entity)));
+        }
+    },
+    {
+        id: "persistent-reference-sets",
+        name: "Reference sets between persistable entities",
+        severity: "info",
+        defaults: { enabled: true },
+        check: ({ data, index, entities }, _settings, report) => {
+            const checked = new Set(entities.map(entity => entity.id));
+            return data.associations.flatMap(assoc => {
+                if (assoc.type !== "ReferenceSet") return [];
+                const parent = index.get(assoc.parentEntity);
+                const child = index.get(assoc.childEntity);
+                if (!parent || !child || !checked.has(parent.id) || !parent.persistable || !child.persistable) return [];
+                return [report(`${assoc.name} is a reference set between ${parent.qualifiedName} and ${child.qualifiedName}`, parent)];
+            });
+        }
+    },
+    {
+        id: "module-cycles",
+        name: "Circular module dependencies",
+        severity: "warning",
+        defaults: { enabled: true },
+        check: ({ data, index, entities }, _settings, report) => {
+            const checkedModules = new Set(entities.map(entity => entity.moduleName));
+            const dependencies = getModuleDependencies(data, index);
+            return findModuleCycles(dependencies)
+                .filter(cycle => cycle.some(module => checkedModules.has(module)))
+                .map(cycle => {
+                    // Point at an entity on one of the dependencies inside the cycle
+                    const members = new Set(cycle);
+                    const inside = dependencies.find(dep => members.has(dep.from) && members.has(dep.to));
+                    const entity = inside?.associations.length
+                        ? index.get(inside.associations[0].parentEntity) || null
+                        : inside?.generalizations[0] || null;
+                    return report(`Modules ${cycle.join(", ")} depend on each other in a cycle`, entity);
+                });
+        }
+    }
+];
+
+export function getDefaultLintConfig(): LintConfig {
+    const config: LintConfig = {};
+    LINT_RULES.forEach(rule => {
+        config[rule.id] = { ...rule.defaults };
+    });
+    return config;
+}
+
+// Run all enabled rules. Marketplace and system modules are only checked on request,
+// since their domain models are not under the team's control.
+export function runLint(data: OntologyData, config: LintConfig, includeMarketplace: boolean): LintFinding[] {
+    const skippedModules = new Set(
+        data.modules.filter(m => !includeMarketplace && (m.isMarketplace || m.isSystem)).map(m => m.name)
+    );
+    const context: LintContext = {
+        data,
+        index: createEntityIndex(data.entities),
+        entities: data.entities.filter(entity => !skippedModules.has(entity.moduleName))
+    };
+
+    return LINT_RULES.flatMap(rule => {
+        const settings = { ...rule.defaults, ...config[rule.id] };
+        const report: ReportFinding = (message, entity) => ({
+            ruleId: rule.id,
+            severity: rule.severity,
+            message,
+            entityId: entity ? entity.id : null
+        });
+        return settings.enabled ? rule.check(context, settings, report) : [];
+    });
+}
+
+const STORAGE_PREFIX = "DomainModelOnthology.lint.";
+
+export function loadLintConfig(projectId: string): LintConfig {
+    try {
+        const raw = localStorage.getItem(STORAGE_PREFIX + projectId);
+        return raw ? { ...getDefaultLintConfig(), ...(JSON.parse(raw) as LintConfig) } : getDefaultLintConfig();
+    } catch {
+        // Storage unavailable or the entry is corrupt, start with the default rules
+        return getDefaultLintConfig();
+    }
+}
+
+export function saveLintConfig(projectId: string, config: LintConfig): void {
+    try {
+        localStorage.setItem(STORAGE_PREFIX + projectId, JSON.stringify(config));
+    } catch {
+        // Storage unavailable or full, the settings apply until the viewer is closed
+    }
+}
@@ -0,0 +1,146 @@
+import { OntologyData, OntologyEntity, OntologyAssociation, OntologyEnumeration, ModuleInfo } from "./types";
+import { hashText } from "./modelDiff";
+import { createEntityIndex } from "./ontology";
+
+// Cache of the collected domain models per app, so the viewer can render right away on reopen
+// and revalidate against Studio Pro in the background. Each module's extract is stored under
+// its own key with a content hash, so only changed modules are written again.
+
+// Total size of the cached extracts of one app, in characters
+const MAX_CACHE_SIZE = 1_500_000;
+
+interface CacheEntry {
+    moduleName: string;
+    hash: string;
+    size: number;
+}
+
+interface CacheIndex {
+    version: 1;
+    modules: ModuleInfo[];
+    enumerations: OntologyEnumeration[];
+    entries: CacheEntry[];
+}
+
+interface CachedExtract {
+    entities: OntologyEntity[];
+    associations: OntologyAssociation[];
+}
+
+const STORAGE_PREFIX = "DomainModelOnthology.cache.";
+
+function getExtractKey(projectId: string, moduleName: string): string {
+    return `${STORAGE_PREFIX}${projectId}/${moduleName}`;
+}
+
+function readIndex(projectId: string): CacheIndex | null {
+    const raw = localStorage.getItem(STORAGE_PREFIX + projectId);
+    const index = raw ? (JSON.parse(raw) as CacheIndex) : null;
+    return index && index.version === 1 ? index : null;
+}
+
+function removeProjectCache(projectId: string): void {
+    const index = readIndex(projectId);
+    index?.entries.forEach(entry => localStorage.removeItem(getExtractKey(projectId, entry.moduleName)));
+    localStorage.removeItem(STORAGE_PREFIX + projectId);
+}
+
+// Cached model of the app, null when nothing is cached. Modules whose extract is missing or does not
+// match its hash are listed as not loaded, so they are collected again.
+export function loadModelCache(projectId: string): OntologyData | null {
+    try {
+        const index = readIndex(projectId);
+        if (!index) return null;
+
+        const extracts = new Map<string, CachedExtract>();
+        index.entries.forEach(entry => {
+            const raw = localStorage.getItem(getExtractKey(projectId, entry.moduleName));
+            if (raw && hashText(raw) === entry.hash) {
+                extracts.set(entry.moduleName, JSON.parse(raw) as CachedExtract);
+            }
+        });
+        if (extracts.size === 0) return null;
+
+        return {
+            entities: index.modules.flatMap(module => extracts.get(module.name)?.entities || []),
+            associations: index.modules.flatMap(module => extracts.get(module.name)?.associations || []),
+            enumerations: index.enumerations,
+            modules: index.modules.map(module => ({ ...module, loaded: extracts.has(module.name), loadError: null }))
+        };
+    } catch {
+        // Storage unavailable or the index is corrupt, the model is collected from Studio Pro
+        return null;
+    }
+}
+
+// Store the loaded modules of the model. When they exceed the size bound, Marketplace and system
+// modules are left out first, then the largest modules.
+export function saveModelCache(projectId: string, data: OntologyData): void {
+    try {
+        const extracts = new Map<string, CachedExtract>(
+            data.modules.filter(m => m.loaded).map(m => [m.name, { entities: [], associations: [] }])
+        );
+        data.entities.forEach(entity => extracts.get(entity.moduleName)?.entities.push(entity));
+        // Associations are stored in the domain model of their parent entity's module. Their ends are
+        // entity IDs or qualified names, so the parent is resolved through the entity index.
+        const entityIndex = createEntityIndex(data.entities);
+        data.associations.forEach(assoc => {
+            const parent = entityIndex.get(assoc.parentEntity);
+            if (parent) extracts.get(parent.moduleName)?.associations.push(assoc);
+        });
+
+        const candidates = data.modules
+            .filter(module => extracts.has(module.name))
+            .map(module => {
+                const json = JSON.stringify(extracts.get(module.name));
+                return { module, json, entry: { moduleName: module.name, hash: hashText(json), size: json.length } };
+            })
+            .sort((a, b) => {
+                const aCustom = !a.module.isMarketplace && !a.module.isSystem;
+                const bCustom = !b.module.isMarketplace && !b.module.isSystem;
+                return aCustom !== bCustom ? (aCustom ? -1 : 1) : a.entry.size - b.entry.size;
+            });
+
+        let total = 0;
+        const cached = candidates.filter(candidate => {
+            if (total + candidate.entry.size > MAX_CACHE_SIZE) return false;
+            total += candidate.entry.size;
+            return true;
+        });
+
+        const previous = readIndex(projectId);
+        const previousHashes = new Map((previous?.entries || []).map(entry => [entry.moduleName, entry.hash]));
+        const cachedNames = new Set(cached.map(candidate => candidate.entry.moduleName));
+        previous?.entries
+            .filter(entry => !cachedNames.has(entry.moduleName))
+            .forEach(entry => localStorage.removeItem(getExtractKey(projectId, entry.moduleName)));
+        cached
+            .filter(candidate => previousHashes.get(candidate.entry.moduleName) !== candidate.entry.hash)
+            .forEach(candidate => localStorage.setItem(getExtractKey(projectId, candidate.entry.moduleName), candidate.json));
+
+        const index: CacheIndex = {
+            version: 1,
+            modules: data.modules,
+            enumerations: data.enumerations,
+            entries: cached.map(candidate => candidate.entry)
+        };
+        localStorage.setItem(STORAGE_PREFIX + projectId, JSON.stringify(index));
+    } catch {
+        // Most likely the storage quota - drop the app's cache rather than leaving it half written
+        try {
+            removeProjectCache(projectId);
+        } catch {
+            // Nothing left to clean up
+        }
+    }
+}
+
+// Remove the cached models of all apps, throwing when the storage is unavailable
+export function clearModelCache(): void {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(STORAGE_PREFIX)) keys.push(key);
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+}
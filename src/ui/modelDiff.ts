@@ -0,0 +1,331 @@
+import { OntologyData, CollectedDomainModels, OntologyEntity, OntologyAttribute, OntologyAssociation } from "./types";
+import { formatAttributeType, createEntityIndex } from "./ontology";
+
+// Comparison of the current domain model against a snapshot saved earlier, e.g. before
+// a feature branch. Entities and associations are matched on qualified name.
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface EntityDiff {
+    kind: ChangeKind;
+    qualifiedName: string;
+    // The current entity, or the snapshot entity when it was removed
+    entity: OntologyEntity;
+    // Readable changes, e.g. "Attribute Total added"
+    changes: string[];
+    // Change per attribute name, removed attributes included
+    attributes: Record<string, ChangeKind>;
+}
+
+export interface AssociationDiff {
+    kind: ChangeKind;
+    // Module of the parent entity and association name, e.g. Sales.Order_Customer
+    qualifiedName: string;
+    association: OntologyAssociation;
+    // Qualified names of the parent and child entity
+    parentEntity: string;
+    childEntity: string;
+    changes: string[];
+}
+
+export interface ModelDiff {
+    entities: EntityDiff[];
+    associations: AssociationDiff[];
+    // Modules with entities that were not compared, since they are not loaded in one of the models
+    skippedModules: string[];
+}
+
+// Snapshot file format
+interface SnapshotFile {
+    version: 1;
+    savedAt: string;
+    data: OntologyData;
+}
+
+export interface ModelSnapshot {
+    savedAt: string;
+    data: OntologyData;
+}
+
+export function serializeSnapshot(data: OntologyData): string {
+    const file: SnapshotFile = { version: 1, savedAt: new Date().toISOString(), data };
+    return JSON.stringify(file, null, 2);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidAttribute(value: unknown): boolean {
+    return isObject(value) && typeof value.name === "string" && typeof value.type === "string";
+}
+
+function isValidEntity(value: unknown): boolean {
+    return isObject(value) &&
+        typeof value.id === "string" &&
+        typeof value.name === "string" &&
+        typeof value.moduleName === "string" &&
+        typeof value.qualifiedName === "string" &&
+        Array.isArray(value.attributes) &&
+        value.attributes.every(isValidAttribute);
+}
+
+function isValidAssociation(value: unknown): boolean {
+    return isObject(value) &&
+        typeof value.name === "string" &&
+        typeof value.parentEntity === "string" &&
+        typeof value.childEntity === "string";
+}
+
+// Parse a saved snapshot, throwing when the file is not one or an entity or association in it
+// lacks what the comparison needs
+export function parseSnapshot(json: string): ModelSnapshot {
+    const file = JSON.parse(json) as Partial<SnapshotFile>;
+    if (!file || !file.data || !Array.isArray(file.data.entities) || !Array.isArray(file.data.associations)) {
+        throw new Error("The file does not contain a domain model snapshot");
+    }
+    const invalidEntity = file.data.entities.findIndex(entity => !isValidEntity(entity));
+    if (invalidEntity >= 0) {
+        throw new Error(`Entity #${invalidEntity + 1} in the snapshot is not a valid entity`);
+    }
+    const invalidAssociation = file.data.associations.findIndex(association => !isValidAssociation(association));
+    if (invalidAssociation >= 0) {
+        throw new Error(`Association #${invalidAssociation + 1} in the snapshot is not a valid association`);
+    }
+    return {
+        savedAt: typeof file.savedAt === "string" ? file.savedAt : "",
+        data: {
+            entities: file.data.entities,
+            associations: file.data.associations,
+            enumerations: file.data.enumerations || [],
+            modules: file.data.modules || []
+        }
+    };
+}
+
+// Association ends are entity IDs or qualified names, so they are resolved through the index of the
+// model the association belongs to
+function getEntityName(idOrQualifiedName: string, index: Map<string, OntologyEntity>): string {
+    return index.get(idOrQualifiedName)?.qualifiedName || idOrQualifiedName;
+}
+
+function getModuleName(qualifiedName: string): string {
+    return qualifiedName.includes(".") ? qualifiedName.substring(0, qualifiedName.indexOf(".")) : qualifiedName;
+}
+
+export function getAssociationQualifiedName(association: OntologyAssociation, index: Map<string, OntologyEntity>): string {
+    return `${getModuleName(getEntityName(association.parentEntity, index))}.${association.name}`;
+}
+
+function describeAttribute(attr: OntologyAttribute): string {
+    const details = [formatAttributeType(attr)];
+    if (attr.defaultValue !== null && attr.defaultValue !== undefined) details.push(`default ${attr.defaultValue}`);
+    if (attr.calculated) details.push("calculated");
+    return details.join(", ");
+}
+
+function diffAttributes(before: OntologyAttribute[], after: OntologyAttribute[], changes: string[]): Record<string, ChangeKind> {
+    const attributes: Record<string, ChangeKind> = {};
+    const previous = new Map(before.map(attr => [attr.name, attr]));
+    const current = new Map(after.map(attr => [attr.name, attr]));
+
+    after.forEach(attr => {
+        const old = previous.get(attr.name);
+        if (!old) {
+            attributes[attr.name] = "added";
+            changes.push(`Attribute ${attr.name} added (${describeAttribute(attr)})`);
+        } else if (describeAttribute(old) !== describeAttribute(attr)) {
+            attributes[attr.name] = "changed";
+            changes.push(`Attribute ${attr.name} changed from ${describeAttribute(old)} to ${describeAttribute(attr)}`);
+        }
+    });
+    before.forEach(attr => {
+        if (!current.has(attr.name)) {
+            attributes[attr.name] = "removed";
+            changes.push(`Attribute ${attr.name} removed`);
+        }
+    });
+
+    return attributes;
+}
+
+function diffEntity(before: OntologyEntity, after: OntologyEntity): EntityDiff | null {
+    const changes: string[] = [];
+    if (before.generalization !== after.generalization) {
+        changes.push(after.generalization
+            ? `Generalization changed from ${before.generalization || "none"} to ${after.generalization}`
+            : `Generalization ${before.generalization} removed`);
+    }
+    if (before.persistable !== after.persistable) {
+        changes.push(after.persistable ? "Now persistable" : "No longer persistable");
+    }
+    const attributes = diffAttributes(before.attributes, after.attributes, changes);
+
+    return changes.length > 0
+        ? { kind: "changed", qualifiedName: after.qualifiedName, entity: after, changes, attributes }
+        : null;
+}
+
+// Compares associations with their ends resolved to qualified names
+function diffAssociation(before: AssociationDiff, after: AssociationDiff): string[] {
+    const changes: string[] = [];
+    if (before.parentEntity !== after.parentEntity || before.childEntity !== after.childEntity) {
+        changes.push(`Now from ${after.parentEntity} to ${after.childEntity} (was ${before.parentEntity} to ${before.childEntity})`);
+    }
+    const previous = before.association;
+    const current = after.association;
+    if (previous.type !== current.type) changes.push(`Type changed from ${previous.type} to ${current.type}`);
+    if (previous.owner !== current.owner) changes.push(`Owner changed from ${previous.owner} to ${current.owner}`);
+    if (previous.parentDeleteBehavior !== current.parentDeleteBehavior || previous.childDeleteBehavior !== current.childDeleteBehavior) {
+        changes.push("Delete behavior changed");
+    }
+    return changes;
+}
+
+// Only modules loaded in both models are compared: the entities of a Marketplace module that is not
+// loaded now would otherwise show up as removed. Modules missing from a model's list were added or
+// removed and are compared.
+export function diffModels(snapshot: OntologyData, current: OntologyData): ModelDiff {
+    const notLoaded = new Set([...snapshot.modules, ...current.modules].filter(m => m.loaded === false).map(m => m.name));
+    const skippedModules = new Set<string>();
+    const isCompared = (moduleName: string) => {
+        if (!notLoaded.has(moduleName)) return true;
+        skippedModules.add(moduleName);
+        return false;
+    };
+
+    const entities: EntityDiff[] = [];
+    const snapshotEntities = snapshot.entities.filter(entity => isCompared(entity.moduleName));
+    const comparedEntities = current.entities.filter(entity => isCompared(entity.moduleName));
+    const previousEntities = new Map(snapshotEntities.map(entity => [entity.qualifiedName, entity]));
+    const currentEntities = new Set(comparedEntities.map(entity => entity.qualifiedName));
+
+    comparedEntities.forEach(entity => {
+        const old = previousEntities.get(entity.qualifiedName);
+        if (!old) {
+            const attributes: Record<string, ChangeKind> = {};
+            entity.attributes.forEach(attr => { attributes[attr.name] = "added"; });
+            entities.push({ kind: "added", qualifiedName: entity.qualifiedName, entity, changes: [], attributes });
+            return;
+        }
+        const diff = diffEntity(old, entity);
+        if (diff) entities.push(diff);
+    });
+    snapshotEntities.forEach(entity => {
+        if (!currentEntities.has(entity.qualifiedName)) {
+            entities.push({ kind: "removed", qualifiedName: entity.qualifiedName, entity, changes: [], attributes: {} });
+        }
+    });
+
+    // Associations with their ends resolved, each through the index of its own model
+    const describe = (association: OntologyAssociation, index: Map<string, OntologyEntity>): AssociationDiff => ({
+        kind: "changed",
+        qualifiedName: getAssociationQualifiedName(association, index),
+        association,
+        parentEntity: getEntityName(association.parentEntity, index),
+        childEntity: getEntityName(association.childEntity, index),
+        changes: []
+    });
+    const snapshotIndex = createEntityIndex(snapshot.entities);
+    const currentIndex = createEntityIndex(current.entities);
+    const previousAssociations = new Map(snapshot.associations
+        .map(assoc => describe(assoc, snapshotIndex))
+        .filter(described => isCompared(getModuleName(described.parentEntity)))
+        .map(described => [described.qualifiedName, described]));
+    const currentAssociations = current.associations
+        .map(assoc => describe(assoc, currentIndex))
+        .filter(described => isCompared(getModuleName(described.parentEntity)));
+    const currentNames = new Set(currentAssociations.map(described => described.qualifiedName));
+
+    const associations: AssociationDiff[] = [];
+    currentAssociations.forEach(described => {
+        const old = previousAssociations.get(described.qualifiedName);
+        if (!old) {
+            associations.push({ ...described, kind: "added" });
+            return;
+        }
+        const changes = diffAssociation(old, described);
+        if (changes.length > 0) {
+            associations.push({ ...described, changes });
+        }
+    });
+    previousAssociations.forEach(described => {
+        if (!currentNames.has(described.qualifiedName)) {
+            associations.push({ ...described, kind: "removed" });
+        }
+    });
+
+    const byName = (a: { qualifiedName: string }, b: { qualifiedName: string }) => a.qualifiedName.localeCompare(b.qualifiedName);
+    return {
+        entities: entities.sort(byName),
+        associations: associations.sort(byName),
+        skippedModules: Array.from(skippedModules).sort()
+    };
+}
+
+const KIND_HEADINGS: Record<ChangeKind, string> = {
+    added: "Added",
+    removed: "Removed",
+    changed: "Changed"
+};
+
+// Markdown changelog, one section per kind of change
+export function formatChangelog(diff: ModelDiff, savedAt: string): string {
+    const lines = [`# Domain model changes${savedAt ? ` since ${savedAt}` : ""}`, ""];
+    if (diff.skippedModules.length > 0) {
+        lines.push(`Not compared, since they are not loaded in both models: ${diff.skippedModules.join(", ")}.`, "");
+    }
+    if (diff.entities.length === 0 && diff.associations.length === 0) {
+        lines.push("No changes.");
+        return lines.join("\n");
+    }
+
+    (["added", "removed", "changed"] as ChangeKind[]).forEach(kind => {
+        const entities = diff.entities.filter(d => d.kind === kind);
+        const associations = diff.associations.filter(d => d.kind === kind);
+        if (entities.length === 0 && associations.length === 0) return;
+
+        lines.push(`## ${KIND_HEADINGS[kind]}`, "");
+        entities.forEach(d => {
+            lines.push(`- Entity \`${d.qualifiedName}\``);
+            d.changes.forEach(change => lines.push(`  - ${change}`));
+        });
+        associations.forEach(d => {
+            lines.push(`- Association \`${d.qualifiedName}\` (${d.parentEntity} → ${d.childEntity})`);
+            d.changes.forEach(change => lines.push(`  - ${change}`));
+        });
+        lines.push("");
+    });
+
+    return lines.join("\n");
+}
+
+// One-line summary, e.g. "Entities: 1 added, 2 changed · Associations: 1 removed"
+export function summarizeDiff(diff: ModelDiff): string {
+    const describe = (label: string, items: Array<{ kind: ChangeKind }>) => {
+        const counts = (["added", "removed", "changed"] as ChangeKind[])
+            .map(kind => ({ kind, count: items.filter(item => item.kind === kind).length }))
+            .filter(({ count }) => count > 0)
+            .map(({ kind, count }) => `${count} ${kind}`);
+        return counts.length > 0 ? [`${label}: ${counts.join(", ")}`] : [];
+    };
+    const parts = [...describe("Entities", diff.entities), ...describe("Associations", diff.associations)];
+    const skipped = diff.skippedModules.length > 0 ? [`Not compared: ${diff.skippedModules.join(", ")}`] : [];
+    return parts.length > 0 ? [...parts, ...skipped].join(" · ") : ["Entity details changed", ...skipped].join(" · ");
+}
+
+// Cheap fingerprint of a text (FNV-1a), to tell whether anything changed
+export function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+// Fingerprint of the domain models. The enumerations are left out, the live update only loads them
+// when the domain models changed.
+export function hashModel(data: CollectedDomainModels): string {
+    return hashText(JSON.stringify({ entities: data.entities, associations: data.associations, modules: data.modules }));
+}
@@ -0,0 +1,71 @@
+import { OntologyAssociation, OntologyAttribute, OntologyEntity } from "./types";
+
+// Association ends may reference entities by ID or by qualified name
+export function resolveEntity(entities: OntologyEntity[], idOrQualifiedName: string): OntologyEntity | undefined {
+    return entities.find(e => e.id === idOrQualifiedName || e.qualifiedName === idOrQualifiedName);
+}
+
+// UML multiplicities at both ends of an association.
+// The parent owns the association; a Reference points to at most one child,
+// and an owner of "Both" on a Reference makes it one-to-one.
+export function getMultiplicity(association: OntologyAssociation): { parent: string; child: string } {
+    if (association.type === "ReferenceSet") {
+        return { parent: "*", child: "*" };
+    }
+    return {
+        parent: association.owner === "Both" ? "0..1" : "*",
+        child: "0..1"
+    };
+}
+
+// Delete behavior of one association end: deleting the object also deletes the associated
+// objects (cascade), is refused while associated objects exist (prevent), or keeps them
+export type DeleteBehaviorKind = "cascade" | "prevent" | "keep";
+
+export function getDeleteBehaviorKind(behavior: string): DeleteBehaviorKind {
+    switch (behavior) {
+        case "DeleteMeAndReferences":
+            return "cascade";
+        case "DeleteMeIfNoReferences":
+            return "prevent";
+        default:
+            return "keep";
+    }
+}
+
+// Index entities by both ID and qualified name for constant-time association lookups
+export function createEntityIndex(entities: OntologyEntity[]): Map<string, OntologyEntity> {
+    const index = new Map<string, OntologyEntity>();
+    entities.forEach(entity => {
+        index.set(entity.id, entity);
+        index.set(entity.qualifiedName, entity);
+    });
+    return index;
+}
+
+// Compact attribute type, e.g. String(200), String(unlimited) or the enumeration name
+export function formatAttributeType(attribute: OntologyAttribute): string {
+    if (attribute.enumeration) {
+        return attribute.enumeration.substring(attribute.enumeration.lastIndexOf(".") + 1);
+    }
+    if (attribute.length !== null) {
+        return `${attribute.type}(${attribute.length === 0 ? "unlimited" : attribute.length})`;
+    }
+    return attribute.type;
+}
+
+// Entities and attributes that use an enumeration
+export function getEnumerationUsages(
+    entities: OntologyEntity[],
+    enumeration: string
+): Array<{ entity: OntologyEntity; attribute: OntologyAttribute }> {
+    const usages: Array<{ entity: OntologyEntity; attribute: OntologyAttribute }> = [];
+    entities.forEach(entity => {
+        entity.attributes.forEach(attribute => {
+            if (attribute.enumeration === enumeration) {
+                usages.push({ entity, attribute });
+            }
+        });
+    });
+    return usages;
+}
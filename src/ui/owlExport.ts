@@ -0,0 +1,209 @@
+import { OntologyData } from "./types";
+import { resolveEntity } from "./ontology";
+
+// Default namespace for generated IRIs - qualified names are appended as local names
+export const DEFAULT_BASE_IRI = "urn:mendix:model:";
+
+const PREFIXES: Record<string, string> = {
+    owl: "http://www.w3.org/2002/07/owl#",
+    rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+    rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+    xsd: "http://www.w3.org/2001/XMLSchema#"
+};
+
+// Map attribute type labels (see getAttributeTypeName) to XSD datatypes
+function getXsdType(attributeType: string): string {
+    switch (attributeType) {
+        case "String":
+        case "HashedString":
+        case "Enumeration":
+            return "xsd:string";
+        case "Integer":
+            return "xsd:int";
+        case "Long":
+        case "AutoNumber":
+            return "xsd:long";
+        case "Decimal":
+            return "xsd:decimal";
+        case "Boolean":
+            return "xsd:boolean";
+        case "DateTime":
+            return "xsd:dateTime";
+        case "Binary":
+            return "xsd:base64Binary";
+        default:
+            return "rdfs:Literal";
+    }
+}
+
+// Intermediate triple-like description shared by the Turtle and JSON-LD writers
+interface OwlResource {
+    id: string;
+    types: string[];
+    label: string;
+    module?: string;
+    subClassOf?: string[];
+    domain?: string;
+    range?: string;
+    restrictions?: Array<{ onProperty: string; maxCardinality: number }>;
+}
+
+function buildOwlResources(data: OntologyData): OwlResource[] {
+    const classes = new Map<string, OwlResource>();
+    const properties: OwlResource[] = [];
+
+    for (const entity of data.entities) {
+        classes.set(entity.qualifiedName, {
+            id: `mx:${entity.qualifiedName}`,
+            types: ["owl:Class"],
+            label: entity.name,
+            module: entity.moduleName,
+            subClassOf: entity.generalization ? [`mx:${entity.generalization}`] : [],
+            restrictions: []
+        });
+
+        for (const attr of entity.attributes) {
+            properties.push({
+                id: `mx:${entity.qualifiedName}.${attr.name}`,
+                types: ["owl:DatatypeProperty"],
+                label: attr.name,
+                module: entity.moduleName,
+                domain: `mx:${entity.qualifiedName}`,
+                range: getXsdType(attr.type)
+            });
+        }
+    }
+
+    for (const assoc of data.associations) {
+        const parent = resolveEntity(data.entities, assoc.parentEntity);
+        const child = resolveEntity(data.entities, assoc.childEntity);
+        if (!parent || !child) continue;
+
+        const propertyId = `mx:${parent.moduleName}.${assoc.name}`;
+        properties.push({
+            id: propertyId,
+            types: ["owl:ObjectProperty"],
+            label: assoc.name,
+            module: parent.moduleName,
+            domain: `mx:${parent.qualifiedName}`,
+            range: `mx:${child.qualifiedName}`
+        });
+
+        // A Reference points to at most one child object; a ReferenceSet is unbounded
+        if (assoc.type === "Reference") {
+            classes.get(parent.qualifiedName)!.restrictions!.push({ onProperty: propertyId, maxCardinality: 1 });
+        }
+    }
+
+    return [...classes.values(), ...properties];
+}
+
+function escapeTurtleString(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, "\\\"")
+        .replace(/\n/g, "\\n")
+        .replace(/\r/g, "\\r");
+}
+
+// Serialize the ontology as OWL in Turtle syntax
+export function toTurtle(data: OntologyData, baseIri: string = DEFAULT_BASE_IRI): string {
+    const lines: string[] = [];
+
+    for (const [prefix, iri] of Object.entries(PREFIXES)) {
+        lines.push(`@prefix ${prefix}: <${iri}> .`);
+    }
+    lines.push(`@prefix mx: <${baseIri}> .`);
+    lines.push("");
+    lines.push(`<${baseIri}> a owl:Ontology ;`);
+    lines.push(`    rdfs:label "Mendix domain model" .`);
+    lines.push("");
+    lines.push(`mx:module a owl:AnnotationProperty ;`);
+    lines.push(`    rdfs:label "module" .`);
+
+    for (const resource of buildOwlResources(data)) {
+        const statements: string[] = [
+            `a ${resource.types.join(", ")}`,
+            `rdfs:label "${escapeTurtleString(resource.label)}"`
+        ];
+        if (resource.module) {
+            statements.push(`mx:module "${escapeTurtleString(resource.module)}"`);
+        }
+        if (resource.domain) {
+            statements.push(`rdfs:domain ${resource.domain}`);
+        }
+        if (resource.range) {
+            statements.push(`rdfs:range ${resource.range}`);
+        }
+
+        const superClasses = [
+            ...(resource.subClassOf || []),
+            ...(resource.restrictions || []).map(r =>
+                `[ a owl:Restriction ; owl:onProperty ${r.onProperty} ; owl:maxCardinality "${r.maxCardinality}"^^xsd:nonNegativeInteger ]`
+            )
+        ];
+        if (superClasses.length > 0) {
+            statements.push(`rdfs:subClassOf ${superClasses.join(" ,\n        ")}`);
+        }
+
+        lines.push("");
+        lines.push(`${resource.id}`);
+        lines.push(statements.map(st => `    ${st}`).join(" ;\n") + " .");
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+// Serialize the ontology as OWL in JSON-LD
+export function toJsonLd(data: OntologyData, baseIri: string = DEFAULT_BASE_IRI): string {
+    const graph: object[] = [
+        {
+            "@id": baseIri,
+            "@type": "owl:Ontology",
+            "rdfs:label": "Mendix domain model"
+        },
+        {
+            "@id": "mx:module",
+            "@type": "owl:AnnotationProperty",
+            "rdfs:label": "module"
+        }
+    ];
+
+    for (const resource of buildOwlResources(data)) {
+        const node: Record<string, unknown> = {
+            "@id": resource.id,
+            "@type": resource.types.length === 1 ? resource.types[0] : resource.types,
+            "rdfs:label": resource.label
+        };
+        if (resource.module) {
+            node["mx:module"] = resource.module;
+        }
+        if (resource.domain) {
+            node["rdfs:domain"] = { "@id": resource.domain };
+        }
+        if (resource.range) {
+            node["rdfs:range"] = { "@id": resource.range };
+        }
+
+        const superClasses: object[] = [
+            ...(resource.subClassOf || []).map(id => ({ "@id": id })),
+            ...(resource.restrictions || []).map(r => ({
+                "@type": "owl:Restriction",
+                "owl:onProperty": { "@id": r.onProperty },
+                "owl:maxCardinality": { "@value": String(r.maxCardinality), "@type": "xsd:nonNegativeInteger" }
+            }))
+        ];
+        if (superClasses.length > 0) {
+            node["rdfs:subClassOf"] = superClasses;
+        }
+
+        graph.push(node);
+    }
+
+    const document = {
+        "@context": { ...PREFIXES, mx: baseIri },
+        "@graph": graph
+    };
+
+    return JSON.stringify(document, null, 2);
+}
@@ -0,0 +1,247 @@
+import { OntologyData, OntologyEntity } from "./types";
+
+// Query language of the search box, e.g. `type:DateTime AND assoc:Customer`. Terms are combined
+// with AND (also when juxtaposed), OR and NOT, and grouped with parentheses. A word without
+// field matches entity and module names like the plain search.
+
+type TextField = "name" | "module" | "attr" | "type" | "extends" | "assoc";
+type CountField = "assoc" | "attrs";
+type FlagField = "crossmodule" | "persistable";
+type ComparisonOperator = ">" | "<" | ">=" | "<=" | "=";
+
+export type QueryNode =
+    | { kind: "and" | "or"; operands: QueryNode[] }
+    | { kind: "not"; operand: QueryNode }
+    | { kind: "text"; value: string }
+    | { kind: "match"; field: TextField; value: string }
+    | { kind: "count"; field: CountField; operator: ComparisonOperator; value: number }
+    | { kind: "flag"; field: FlagField; value: boolean };
+
+// Operators shown in the search help
+export const QUERY_HELP: Array<{ syntax: string; description: string }> = [
+    { syntax: "Order", description: "Entity or module name contains the word" },
+    { syntax: "name:Order*", description: "Entity name, * matches any text" },
+    { syntax: "module:Sales", description: "Entity is in the module" },
+    { syntax: "attr:Email", description: "Has an attribute with the name" },
+    { syntax: "type:DateTime", description: "Has an attribute of the type or enumeration" },
+    { syntax: "extends:System.User", description: "Specializes the entity, directly or indirectly" },
+    { syntax: "assoc:Customer", description: "Is associated with the entity" },
+    { syntax: "assoc>5, attrs<=2", description: "Number of associations or attributes" },
+    { syntax: "crossmodule:true", description: "Has an association to another module" },
+    { syntax: "persistable:false", description: "Persistability" },
+    { syntax: "AND, OR, NOT, ( )", description: "Combine terms, AND is implied between terms" }
+];
+
+const TEXT_FIELDS: TextField[] = ["name", "module", "attr", "type", "extends", "assoc"];
+const COUNT_FIELDS: CountField[] = ["assoc", "attrs"];
+const FLAG_FIELDS: FlagField[] = ["crossmodule", "persistable"];
+
+// Words, quoted phrases and parentheses. A quoted phrase may follow a field, as in attr:"Full name".
+function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /\s*(\(|\)|(?:[^\s()"]*"[^"]*"?)|[^\s()]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null && match[1]) {
+        tokens.push(match[1]);
+    }
+    return tokens;
+}
+
+function unquote(value: string): string {
+    return value.replace(/^"|"$/g, "");
+}
+
+function parseTerm(token: string): QueryNode {
+    const match = /^([a-z]+)(>=|<=|:|>|<|=)(.*)$/i.exec(token);
+    if (!match) return { kind: "text", value: unquote(token) };
+
+    const field = match[1].toLowerCase();
+    const operator = match[2];
+    const value = unquote(match[3]);
+    if (value === "") {
+        throw new Error(`Missing value after ${match[1]}${operator}`);
+    }
+
+    if (operator === ":" && (TEXT_FIELDS as string[]).includes(field)) {
+        return { kind: "match", field: field as TextField, value };
+    }
+    if (operator === ":" && (FLAG_FIELDS as string[]).includes(field)) {
+        if (!/^(true|false)$/i.test(value)) {
+            throw new Error(`${field}: expects true or false`);
+        }
+        return { kind: "flag", field: field as FlagField, value: value.toLowerCase() === "true" };
+    }
+    if (operator !== ":" && (COUNT_FIELDS as string[]).includes(field)) {
+        const count = Number(value);
+        if (!Number.isInteger(count)) {
+            throw new Error(`${field}${operator} expects a whole number`);
+        }
+        return { kind: "count", field: field as CountField, operator: operator as ComparisonOperator, value: count };
+    }
+    throw new Error(`Unknown search term ${match[1]}${operator}`);
+}
+
+// Parse a search query, null when it is empty. Throws on syntax errors, with a readable message.
+export function parseQuery(text: string): QueryNode | null {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return null;
+    let position = 0;
+
+    const parseOr = (): QueryNode => {
+        const operands = [parseAnd()];
+        while (tokens[position] === "OR") {
+            position++;
+            operands.push(parseAnd());
+        }
+        return operands.length === 1 ? operands[0] : { kind: "or", operands };
+    };
+
+    const parseAnd = (): QueryNode => {
+        const operands = [parseNot()];
+        while (position < tokens.length && tokens[position] !== "OR" && tokens[position] !== ")") {
+            if (tokens[position] === "AND") position++;
+            operands.push(parseNot());
+        }
+        return operands.length === 1 ? operands[0] : { kind: "and", operands };
+    };
+
+    const parseNot = (): QueryNode => {
+        if (tokens[position] === "NOT") {
+            position++;
+            return { kind: "not", operand: parseNot() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): QueryNode => {
+        const token = tokens[position++];
+        if (token === undefined || token === "AND" || token === "OR") {
+            throw new Error(token ? `Expected a search term before ${token}` : "Expected a search term at the end");
+        }
+        if (token === ")") {
+            throw new Error("Unexpected )");
+        }
+        if (token === "(") {
+            const node = parseOr();
+            if (tokens[position++] !== ")") {
+                throw new Error("Missing )");
+            }
+            return node;
+        }
+        return parseTerm(token);
+    };
+
+    const query = parseOr();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected ${tokens[position]}`);
+    }
+    return query;
+}
+
+// Case-insensitive match of a whole name, where * matches any text
+function toNameMatcher(pattern: string): (name: string) => boolean {
+    const escaped = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    const regExp = new RegExp(`^${escaped}$`, "i");
+    return name => regExp.test(name);
+}
+
+const COMPARISONS: Record<ComparisonOperator, (a: number, b: number) => boolean> = {
+    ">": (a, b) => a > b,
+    "<": (a, b) => a < b,
+    ">=": (a, b) => a >= b,
+    "<=": (a, b) => a <= b,
+    "=": (a, b) => a === b
+};
+
+// Predicate over the entities of the model. Association ends and generalizations are resolved
+// through the entity index, so entities of modules that are not loaded do not match.
+export function createQueryMatcher(
+    query: QueryNode,
+    data: OntologyData,
+    index: Map<string, OntologyEntity>
+): (entity: OntologyEntity) => boolean {
+    // Associated entities per entity ID, an entity associated with itself included once
+    const associated = new Map<string, OntologyEntity[]>();
+    const associationCounts = new Map<string, number>();
+    data.associations.forEach(assoc => {
+        const parent = index.get(assoc.parentEntity);
+        const child = index.get(assoc.childEntity);
+        if (!parent || !child) return;
+        associated.set(parent.id, [...(associated.get(parent.id) || []), child]);
+        associationCounts.set(parent.id, (associationCounts.get(parent.id) || 0) + 1);
+        if (parent.id !== child.id) {
+            associated.set(child.id, [...(associated.get(child.id) || []), parent]);
+            associationCounts.set(child.id, (associationCounts.get(child.id) || 0) + 1);
+        }
+    });
+
+    // Qualified names of the generalizations up the chain. A parent in a module that is not loaded,
+    // e.g. System.User, still counts; the chain just cannot be followed past it.
+    const getAncestorNames = (entity: OntologyEntity): string[] => {
+        const names: string[] = [];
+        const seen = new Set<string>([entity.id]);
+        let name = entity.generalization;
+        while (name) {
+            names.push(name);
+            const parent = index.get(name);
+            if (!parent || seen.has(parent.id)) break;
+            seen.add(parent.id);
+            name = parent.generalization;
+        }
+        return names;
+    };
+
+    const compile = (node: QueryNode): ((entity: OntologyEntity) => boolean) => {
+        switch (node.kind) {
+            case "and": {
+                const operands = node.operands.map(compile);
+                return entity => operands.every(operand => operand(entity));
+            }
+            case "or": {
+                const operands = node.operands.map(compile);
+                return entity => operands.some(operand => operand(entity));
+            }
+            case "not": {
+                const operand = compile(node.operand);
+                return entity => !operand(entity);
+            }
+            case "text": {
+                const value = node.value.toLowerCase();
+                return entity => entity.name.toLowerCase().includes(value) || entity.moduleName.toLowerCase().includes(value);
+            }
+            case "match": {
+                const matches = toNameMatcher(node.value);
+                const matchesEntity = (other: OntologyEntity) => matches(other.qualifiedName) || matches(other.name);
+                switch (node.field) {
+                    case "name":
+                        return entity => matches(entity.name);
+                    case "module":
+                        return entity => matches(entity.moduleName);
+                    case "attr":
+                        return entity => entity.attributes.some(attr => matches(attr.name));
+                    case "type":
+                        return entity => entity.attributes.some(attr => matches(attr.type) || (!!attr.enumeration && matches(attr.enumeration)));
+                    case "extends":
+                        return entity => getAncestorNames(entity).some(name =>
+                            matches(name) || matches(name.substring(name.lastIndexOf(".") + 1)));
+                    case "assoc":
+                        return entity => (associated.get(entity.id) || []).some(matchesEntity);
+                }
+                break;
+            }
+            case "count": {
+                const compare = COMPARISONS[node.operator];
+                return node.field === "assoc"
+                    ? entity => compare(associationCounts.get(entity.id) || 0, node.value)
+                    : entity => compare(entity.attributes.length, node.value);
+            }
+            case "flag":
+                return node.field === "persistable"
+                    ? entity => entity.persistable === node.value
+                    : entity => (associated.get(entity.id) || []).some(other => other.moduleName !== entity.moduleName) === node.value;
+        }
+        return () => false;
+    };
+
+    return compile(query);
+}
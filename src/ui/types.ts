@@ -0,0 +1,115 @@
+// Types for ontology data
+export interface OntologyEntity {
+    id: string;
+    name: string;
+    moduleName: string;
+    qualifiedName: string;
+    attributes: OntologyAttribute[];
+    generalization: string | null;
+    // Inherited from the root of the generalization chain
+    persistable: boolean;
+    // Enabled system members: createdDate, changedDate, owner, changedBy
+    systemMembers: string[];
+    accessRules: EntityAccessRule[];
+    validationRules: EntityValidationRule[];
+    eventHandlers: EntityEventHandler[];
+    indexes: EntityIndex[];
+    documentation: string;
+}
+
+export interface OntologyAttribute {
+    name: string;
+    // Type label, e.g. "String" or "Enumeration"
+    type: string;
+    // Qualified name of the enumeration of enumeration attributes
+    enumeration: string | null;
+    // Maximum length of string attributes, 0 for unlimited
+    length: number | null;
+    // Default value of stored attributes, null when none is set
+    defaultValue: string | null;
+    calculated: boolean;
+    calculationMicroflow: string | null;
+}
+
+export interface EntityAccessRule {
+    moduleRoles: string[];
+    allowCreate: boolean;
+    allowDelete: boolean;
+    defaultMemberAccess: "None" | "ReadOnly" | "ReadWrite";
+    xPathConstraint: string | null;
+}
+
+export interface EntityValidationRule {
+    attribute: string;
+    // Readable rule, e.g. "Required" or "Max length 200"
+    rule: string;
+}
+
+export interface EntityEventHandler {
+    moment: "Before" | "After";
+    event: "Create" | "Commit" | "Delete" | "RollBack";
+    microflow: string | null;
+}
+
+export interface EntityIndex {
+    // Attribute names, suffixed with " desc" for descending order
+    attributes: string[];
+}
+
+export interface OntologyAssociation {
+    id: string;
+    name: string;
+    parentEntity: string;
+    childEntity: string;
+    type: string;
+    owner: string;
+    // What deleting a parent / child object does to the associated objects, Mendix DeletingBehavior values
+    parentDeleteBehavior: string;
+    childDeleteBehavior: string;
+    isCrossModule: boolean;
+}
+
+export interface OntologyEnumeration {
+    id: string;
+    name: string;
+    moduleName: string;
+    qualifiedName: string;
+    values: Array<{
+        name: string;
+        caption: string;
+    }>;
+}
+
+export interface ModuleInfo {
+    name: string;
+    isMarketplace: boolean;
+    isSystem: boolean;
+    // ID of the module's domain model document, to open it in Studio Pro
+    domainModelId: string | null;
+    // Marketplace and system modules are only loaded once selected
+    loaded: boolean;
+    // Why the domain model could not be loaded, null when it loaded or was not requested
+    loadError: string | null;
+}
+
+export interface OntologyData {
+    entities: OntologyEntity[];
+    associations: OntologyAssociation[];
+    // Enumerations used by at least one attribute
+    enumerations: OntologyEnumeration[];
+    modules: ModuleInfo[];
+}
+
+// Collected domain models of the app, without the enumerations
+export type CollectedDomainModels = Omit<OntologyData, "enumerations">;
+
+// Node position type
+export interface NodePosition {
+    x: number;
+    y: number;
+}
+
+// Graph node with position
+export interface GraphNode extends OntologyEntity {
+    position: NodePosition;
+}